@@ -13,6 +13,16 @@ import Students from "./pages/Students";
 import Faculty from "./pages/Faculty";
 import Attendance from "./pages/Attendance";
 import LiveAttendance from "./pages/LiveAttendance";
+import Settings from "./pages/Settings";
+import Timetable from "./pages/Timetable";
+import Classes from "./pages/Classes";
+import AcademicCalendar from "./pages/AcademicCalendar";
+import LeaveRequests from "./pages/LeaveRequests";
+import Kiosk from "./pages/Kiosk";
+import IdCards from "./pages/IdCards";
+import UnknownFaces from "./pages/UnknownFaces";
+import Reports from "./pages/Reports";
+import MonthlyRegister from "./pages/MonthlyRegister";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -32,9 +42,19 @@ const App = () => (
             <Route path="/reset-password" element={<ResetPassword />} />
             <Route path="/dashboard" element={<Dashboard />} />
             <Route path="/students" element={<Students />} />
+            <Route path="/id-cards" element={<IdCards />} />
             <Route path="/faculty" element={<Faculty />} />
             <Route path="/attendance" element={<Attendance />} />
+            <Route path="/monthly-register" element={<MonthlyRegister />} />
+            <Route path="/reports" element={<Reports />} />
             <Route path="/live-attendance" element={<LiveAttendance />} />
+            <Route path="/unknown-faces" element={<UnknownFaces />} />
+            <Route path="/leave-requests" element={<LeaveRequests />} />
+            <Route path="/classes" element={<Classes />} />
+            <Route path="/timetable" element={<Timetable />} />
+            <Route path="/calendar" element={<AcademicCalendar />} />
+            <Route path="/settings" element={<Settings />} />
+            <Route path="/kiosk" element={<Kiosk />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </AuthProvider>
@@ -0,0 +1,189 @@
+import { useEffect, useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, XAxis, YAxis } from "recharts";
+import { useClasses } from "@/hooks/useClasses";
+import { classLabel } from "@/lib/classes";
+import {
+  fetchClassRates,
+  fetchDailyRates,
+  fetchPeriodSplit,
+  lastDays,
+  weekStart,
+  type ClassRate,
+  type DailyRatePoint,
+  type PeriodSplit,
+} from "@/lib/dashboardTrends";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+
+const TREND_DAYS = 30;
+const LOWEST_CLASSES = 5;
+
+// Classes below this are drawn in red.
+const LOW_ATTENDANCE_PERCENT = 75;
+
+const dailyConfig = {
+  percentage: { label: "Attendance", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const periodConfig = {
+  present: { label: "Present", color: "hsl(var(--accent))" },
+  late: { label: "Late", color: "hsl(var(--warning))" },
+  sleepy: { label: "Sleepy", color: "hsl(var(--warning) / 0.5)" },
+  absent: { label: "Absent", color: "hsl(var(--destructive))" },
+  excused: { label: "Excused", color: "hsl(var(--primary) / 0.6)" },
+} satisfies ChartConfig;
+
+const classConfig = {
+  percentage: { label: "Attendance", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const shortDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { day: "numeric", month: "short" });
+
+const percentFormatter = (value: unknown) => (
+  <div className="flex w-full justify-between gap-4">
+    <span className="text-muted-foreground">Attendance</span>
+    <span className="font-mono font-medium tabular-nums">{String(value)}%</span>
+  </div>
+);
+
+/**
+ * Attendance trends on the dashboard. The aggregates are computed in the database and scoped
+ * there: principals see the whole school, faculty the classes they teach.
+ */
+export default function DashboardCharts({ isPrincipal }: { isPrincipal: boolean }) {
+  const { classes } = useClasses();
+  const [daily, setDaily] = useState<DailyRatePoint[]>([]);
+  const [byPeriod, setByPeriod] = useState<PeriodSplit[]>([]);
+  const [classRates, setClassRates] = useState<ClassRate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const today = new Date().toISOString().split("T")[0];
+    const days = lastDays(today, TREND_DAYS);
+    Promise.all([
+      fetchDailyRates(days),
+      fetchPeriodSplit(days[0], today),
+      fetchClassRates(weekStart(today), today),
+    ])
+      .then(([dailyRates, periodSplit, rates]) => {
+        setDaily(dailyRates);
+        setByPeriod(periodSplit);
+        setClassRates(rates);
+      })
+      .catch(() => undefined)
+      .finally(() => setLoading(false));
+  }, []);
+
+  const lowestClasses = useMemo(
+    () =>
+      classRates
+        .filter((r) => r.percentage !== null)
+        .slice(0, LOWEST_CLASSES)
+        .map((r) => {
+          const schoolClass = classes.find((c) => c.id === r.class_id);
+          return { ...r, name: schoolClass ? classLabel(schoolClass) : "Unknown class" };
+        }),
+    [classRates, classes]
+  );
+
+  const scope = isPrincipal ? "Whole school" : "Your classes";
+  const empty = (message: string) => (
+    <p className="flex h-48 items-center justify-center text-sm text-muted-foreground">
+      {loading ? "Loading..." : message}
+    </p>
+  );
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-2">
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle className="text-base">Daily attendance</CardTitle>
+          <CardDescription>{scope} · last {TREND_DAYS} days</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {daily.every((d) => d.percentage === null) ? (
+            empty(`No attendance recorded in the last ${TREND_DAYS} days`)
+          ) : (
+            <ChartContainer config={dailyConfig} className="aspect-auto h-64 w-full">
+              <LineChart data={daily} margin={{ left: 0, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} tickFormatter={shortDate} />
+                <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={36} tickFormatter={(v) => `${v}%`} />
+                <ChartTooltip
+                  content={<ChartTooltipContent labelFormatter={(date) => shortDate(String(date))} formatter={percentFormatter} />}
+                />
+                <Line dataKey="percentage" type="monotone" stroke="var(--color-percentage)" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">By period of the day</CardTitle>
+          <CardDescription>{scope} · last {TREND_DAYS} days</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {byPeriod.length === 0 ? (
+            empty("No periods marked yet")
+          ) : (
+            <ChartContainer config={periodConfig} className="aspect-auto h-64 w-full">
+              <BarChart data={byPeriod}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="period" tickLine={false} axisLine={false} tickFormatter={(p) => `P${p}`} />
+                <YAxis tickLine={false} axisLine={false} width={36} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `Period ${payload[0]?.payload.period}`} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {(Object.keys(periodConfig) as (keyof typeof periodConfig)[]).map((key) => (
+                  <Bar key={key} dataKey={key} stackId="status" fill={`var(--color-${key})`} />
+                ))}
+              </BarChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Lowest attendance this week</CardTitle>
+          <CardDescription>{scope} · since Monday</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {lowestClasses.length === 0 ? (
+            empty("No class attendance this week")
+          ) : (
+            <ChartContainer config={classConfig} className="aspect-auto h-64 w-full">
+              <BarChart data={lowestClasses} layout="vertical" margin={{ left: 8, right: 12 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" domain={[0, 100]} tickLine={false} axisLine={false} tickFormatter={(v) => `${v}%`} />
+                <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={96} />
+                <ChartTooltip content={<ChartTooltipContent formatter={percentFormatter} />} />
+                <Bar dataKey="percentage" radius={4}>
+                  {lowestClasses.map((r) => (
+                    <Cell
+                      key={r.class_id}
+                      fill={
+                        r.percentage !== null && r.percentage < LOW_ATTENDANCE_PERCENT
+                          ? "hsl(var(--destructive))"
+                          : "var(--color-percentage)"
+                      }
+                    />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
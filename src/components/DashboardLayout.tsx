@@ -1,7 +1,9 @@
 import { useEffect } from "react";
 import { useNavigate, Link, useLocation } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { usePendingSync } from "@/hooks/usePendingSync";
 import { Button } from "@/components/ui/button";
+import FailedSyncDialog from "@/components/FailedSyncDialog";
 import {
   LayoutDashboard,
   Users,
@@ -11,6 +13,17 @@ import {
   LogOut,
   GraduationCap,
   Menu,
+  Settings,
+  ScanFace,
+  CloudOff,
+  RefreshCw,
+  CircleAlert,
+  Clock,
+  School,
+  CalendarDays,
+  CalendarOff,
+  BarChart3,
+  Grid3x3,
 } from "lucide-react";
 import { useState } from "react";
 import { cn } from "@/lib/utils";
@@ -23,11 +36,19 @@ const navItems = [
   { label: "Dashboard", icon: LayoutDashboard, path: "/dashboard" },
   { label: "Students", icon: Users, path: "/students" },
   { label: "Attendance", icon: ClipboardList, path: "/attendance" },
+  { label: "Monthly Register", icon: Grid3x3, path: "/monthly-register" },
   { label: "Live Attendance", icon: Camera, path: "/live-attendance" },
+  { label: "Leave Requests", icon: CalendarOff, path: "/leave-requests" },
 ];
 
 const principalItems = [
   { label: "Faculty", icon: UserPlus, path: "/faculty" },
+  { label: "Classes", icon: School, path: "/classes" },
+  { label: "Reports", icon: BarChart3, path: "/reports" },
+  { label: "Unknown Faces", icon: ScanFace, path: "/unknown-faces" },
+  { label: "Timetable", icon: Clock, path: "/timetable" },
+  { label: "Calendar", icon: CalendarDays, path: "/calendar" },
+  { label: "Settings", icon: Settings, path: "/settings" },
 ];
 
 export default function DashboardLayout({ children }: Props) {
@@ -35,11 +56,18 @@ export default function DashboardLayout({ children }: Props) {
   const navigate = useNavigate();
   const location = useLocation();
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const { pending, failed, lastError, syncing, syncNow } = usePendingSync();
+  const [failedOpen, setFailedOpen] = useState(false);
 
   useEffect(() => {
     if (!loading && !user) navigate("/login");
   }, [loading, user, navigate]);
 
+  // Kiosk devices are locked to the door camera
+  useEffect(() => {
+    if (profile?.role === "kiosk") navigate("/kiosk", { replace: true });
+  }, [profile, navigate]);
+
   if (loading) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -48,7 +76,7 @@ export default function DashboardLayout({ children }: Props) {
     );
   }
 
-  if (!user) return null;
+  if (!user || profile?.role === "kiosk") return null;
 
   const allNavItems = profile?.role === "principal"
     ? [...navItems, ...principalItems]
@@ -126,6 +154,28 @@ export default function DashboardLayout({ children }: Props) {
             <Menu className="h-5 w-5" />
           </Button>
           <div className="flex-1" />
+          {pending > 0 && (
+            <button
+              onClick={syncNow}
+              title={lastError ?? "Attendance saved on this device. Click to sync now."}
+              className="inline-flex items-center gap-1.5 rounded-full border border-warning/20 bg-warning/10 px-2.5 py-0.5 text-xs font-semibold text-warning"
+            >
+              {syncing ? <RefreshCw className="h-3 w-3 animate-spin" /> : <CloudOff className="h-3 w-3" />}
+              {pending} pending sync
+            </button>
+          )}
+          {failed.length > 0 && (
+            <button
+              onClick={() => setFailedOpen(true)}
+              className="inline-flex items-center gap-1.5 rounded-full border border-destructive/20 bg-destructive/10 px-2.5 py-0.5 text-xs font-semibold text-destructive"
+            >
+              <CircleAlert className="h-3 w-3" />
+              {failed.length} failed to sync
+            </button>
+          )}
+          {user && (
+            <FailedSyncDialog open={failedOpen} onOpenChange={setFailedOpen} batches={failed} userId={user.id} />
+          )}
           <span className="text-sm text-muted-foreground">
             {profile?.school_name || "Smart Attendance"}
           </span>
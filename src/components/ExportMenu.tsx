@@ -0,0 +1,54 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { toast } from "sonner";
+import { Download, FileSpreadsheet, FileText, Loader2, Table2 } from "lucide-react";
+import type { ExportFormat } from "@/lib/attendanceExport";
+
+interface Props {
+  onExport: (format: ExportFormat) => Promise<void> | void;
+  disabled?: boolean;
+}
+
+/** Export button offering CSV, Excel and a printable PDF of whatever the page is showing. */
+export default function ExportMenu({ onExport, disabled }: Props) {
+  const [busy, setBusy] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setBusy(true);
+    try {
+      await onExport(format);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={disabled || busy}>
+          {busy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={() => handleExport("csv")}>
+          <Table2 className="mr-2 h-4 w-4" /> CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleExport("xlsx")}>
+          <FileSpreadsheet className="mr-2 h-4 w-4" /> Excel (.xlsx)
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleExport("pdf")}>
+          <FileText className="mr-2 h-4 w-4" /> PDF register
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,86 @@
+import { useEffect, useRef, useState } from "react";
+
+export interface OverlayFace {
+  box: { x: number; y: number; width: number; height: number };
+  kind: "recognised" | "pending" | "unknown";
+  label: string;
+  detail?: string;
+  distance: number;
+}
+
+interface Props {
+  faces: OverlayFace[];
+  // Intrinsic size of the video frame the boxes were detected in
+  sourceWidth: number;
+  sourceHeight: number;
+}
+
+const colorVars: Record<OverlayFace["kind"], string> = {
+  recognised: "--accent",
+  pending: "--warning",
+  unknown: "--destructive",
+};
+
+const themeColor = (variable: string) =>
+  `hsl(${getComputedStyle(document.documentElement).getPropertyValue(variable).trim()})`;
+
+/**
+ * Canvas laid over the webcam feed that outlines each detected face with its match.
+ * Boxes are rescaled from video pixels to the displayed size whenever the layout changes.
+ */
+export default function FaceOverlay({ faces, sourceWidth, sourceHeight }: Props) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || size.width === 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = size.width * ratio;
+    canvas.height = size.height * ratio;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, size.width, size.height);
+    if (sourceWidth === 0 || sourceHeight === 0) return;
+
+    const scaleX = size.width / sourceWidth;
+    const scaleY = size.height / sourceHeight;
+    ctx.font = "600 12px system-ui, sans-serif";
+    ctx.textBaseline = "top";
+
+    for (const face of faces) {
+      const x = face.box.x * scaleX;
+      const y = face.box.y * scaleY;
+      const width = face.box.width * scaleX;
+      const height = face.box.height * scaleY;
+      const color = themeColor(colorVars[face.kind]);
+
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      ctx.strokeRect(x, y, width, height);
+
+      const lines = [face.label, `${face.detail ? `${face.detail} · ` : ""}d=${face.distance.toFixed(2)}`];
+      const labelWidth = Math.max(...lines.map((line) => ctx.measureText(line).width)) + 8;
+      const labelHeight = lines.length * 14 + 4;
+      const labelY = y >= labelHeight ? y - labelHeight : y + height;
+
+      ctx.fillStyle = color;
+      ctx.fillRect(x - 1, labelY, labelWidth, labelHeight);
+      ctx.fillStyle = "#fff";
+      lines.forEach((line, i) => ctx.fillText(line, x + 3, labelY + 2 + i * 14));
+    }
+  }, [faces, size, sourceWidth, sourceHeight]);
+
+  return <canvas ref={canvasRef} className="pointer-events-none absolute inset-0 h-full w-full" />;
+}
@@ -0,0 +1,213 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useClasses } from "@/hooks/useClasses";
+import { useTimetable } from "@/hooks/useTimetable";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { Plus, Trash2 } from "lucide-react";
+import { classLabel } from "@/lib/classes";
+import { WEEKDAYS, type FacultyAssignment } from "@/lib/facultyAssignments";
+import { periodOptionLabel } from "@/lib/timetable";
+
+interface Props {
+  principalId: string;
+  faculty: { id: string; full_name: string | null }[];
+}
+
+/** Principal's editor for which faculty member teaches each class, subject and timetable slot. */
+export default function FacultyAssignments({ principalId, faculty }: Props) {
+  const { classes } = useClasses();
+  const { periods } = useTimetable();
+  const [assignments, setAssignments] = useState<FacultyAssignment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [facultyId, setFacultyId] = useState("");
+  const [classId, setClassId] = useState("");
+  const [subject, setSubject] = useState("");
+  const [weekday, setWeekday] = useState("1");
+  const [period, setPeriod] = useState("");
+
+  const fetchAssignments = useCallback(async () => {
+    const { data } = await supabase
+      .from("faculty_assignments")
+      .select("*")
+      .eq("principal_id", principalId)
+      .order("weekday")
+      .order("period");
+    setAssignments(data || []);
+    setLoading(false);
+  }, [principalId]);
+
+  useEffect(() => {
+    fetchAssignments();
+  }, [fetchAssignments]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!facultyId || !classId || !period) {
+      toast.error("Choose a faculty member, class and period");
+      return;
+    }
+    const { error } = await supabase.from("faculty_assignments").insert({
+      principal_id: principalId,
+      faculty_id: facultyId,
+      class_id: classId,
+      subject: subject.trim(),
+      weekday: parseInt(weekday),
+      period: parseInt(period),
+    });
+    if (error) {
+      toast.error(
+        error.message.includes("duplicate") ? "That class or faculty member already has this slot" : error.message
+      );
+    } else {
+      toast.success("Assignment added");
+      setSubject("");
+      fetchAssignments();
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from("faculty_assignments").delete().eq("id", id);
+    if (error) toast.error(error.message);
+    else fetchAssignments();
+  };
+
+  const facultyName = (id: string) => faculty.find((f) => f.id === id)?.full_name || "—";
+  const className = (id: string) => {
+    const c = classes.find((c) => c.id === id);
+    return c ? classLabel(c) : "—";
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Assign a Slot</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleAdd} className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Faculty</Label>
+              <Select value={facultyId} onValueChange={setFacultyId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select faculty" />
+                </SelectTrigger>
+                <SelectContent>
+                  {faculty.map((f) => (
+                    <SelectItem key={f.id} value={f.id}>
+                      {f.full_name || "Unnamed"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Class</Label>
+              <Select value={classId} onValueChange={setClassId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select class" />
+                </SelectTrigger>
+                <SelectContent>
+                  {classes.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {classLabel(c)} ({c.academic_year})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Subject</Label>
+              <Input value={subject} onChange={(e) => setSubject(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label>Day</Label>
+              <Select value={weekday} onValueChange={setWeekday}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEKDAYS.map((day, i) => (
+                    <SelectItem key={day} value={i.toString()}>
+                      {day}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Period</Label>
+              <Select value={period} onValueChange={setPeriod}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select period" />
+                </SelectTrigger>
+                <SelectContent>
+                  {periods.map((p) => (
+                    <SelectItem key={p.period} value={p.period.toString()}>
+                      {periodOptionLabel(p)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-end">
+              <Button type="submit" className="w-full">
+                <Plus className="mr-2 h-4 w-4" /> Add Assignment
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Day</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead>Class</TableHead>
+                <TableHead>Subject</TableHead>
+                <TableHead>Faculty</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">Loading...</TableCell>
+                </TableRow>
+              ) : assignments.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    No assignments yet. Until you add some, any faculty member can take attendance for any class.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                assignments.map((a) => (
+                  <TableRow key={a.id}>
+                    <TableCell>{WEEKDAYS[a.weekday]}</TableCell>
+                    <TableCell>Period {a.period}</TableCell>
+                    <TableCell className="font-medium">{className(a.class_id)}</TableCell>
+                    <TableCell>{a.subject}</TableCell>
+                    <TableCell>{facultyName(a.faculty_id)}</TableCell>
+                    <TableCell className="text-right">
+                      <button onClick={() => handleDelete(a.id)} title="Remove">
+                        <Trash2 className="h-4 w-4 text-destructive hover:text-destructive/80" />
+                      </button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { RefreshCw, Trash2 } from "lucide-react";
+import { retryBatchAsEdits } from "@/lib/attendanceSync";
+import { removePendingBatch, type PendingAttendanceBatch } from "@/lib/offlineStore";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  batches: PendingAttendanceBatch[];
+  userId: string;
+}
+
+/**
+ * Offline attendance the server refused for good. Each batch can be sent again as edits,
+ * overwriting what was saved since, or discarded from this device.
+ */
+export default function FailedSyncDialog({ open, onOpenChange, batches, userId }: Props) {
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const handleRetry = async (batch: PendingAttendanceBatch) => {
+    setBusy(batch.id);
+    try {
+      const { error } = await retryBatchAsEdits(batch, userId);
+      if (error) toast.error("The attendance was refused again", { description: error.message });
+      else toast.success(`Period ${batch.period} on ${batch.date} synced`);
+    } catch {
+      toast.error("Could not retry the attendance");
+    }
+    setBusy(null);
+  };
+
+  const handleDiscard = async (batch: PendingAttendanceBatch) => {
+    setBusy(batch.id);
+    try {
+      await removePendingBatch(batch.id);
+    } catch {
+      toast.error("Could not discard the attendance");
+    }
+    setBusy(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Attendance that could not sync</DialogTitle>
+          <DialogDescription>
+            The server refused this attendance, saved on this device while offline. Retry it as a correction, or
+            discard it and mark the period again.
+          </DialogDescription>
+        </DialogHeader>
+        {batches.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">Nothing left to resolve</p>
+        ) : (
+          <div className="space-y-2">
+            {batches.map((batch) => (
+              <div key={batch.id} className="rounded-lg border p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <p className="text-sm font-medium">
+                      {batch.date} · Period {batch.period}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {batch.records.length + (batch.edits?.length ?? 0)} students · taken{" "}
+                      {new Date(batch.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button size="sm" variant="outline" disabled={busy !== null} onClick={() => handleRetry(batch)}>
+                      <RefreshCw className="mr-1 h-3 w-3" /> Retry as edit
+                    </Button>
+                    <Button size="sm" variant="ghost" disabled={busy !== null} onClick={() => handleDiscard(batch)}>
+                      <Trash2 className="mr-1 h-3 w-3" /> Discard
+                    </Button>
+                  </div>
+                </div>
+                {batch.lastError && <p className="mt-2 text-xs text-destructive">{batch.lastError}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
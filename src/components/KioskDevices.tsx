@@ -0,0 +1,178 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useClasses } from "@/hooks/useClasses";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { Plus, Trash2 } from "lucide-react";
+import { classLabel } from "@/lib/classes";
+import { createKiosk, type KioskDevice } from "@/lib/kiosk";
+
+const WHOLE_SCHOOL = "all";
+
+/** Principal's list of classroom kiosks, with pairing codes for devices not yet set up. */
+export default function KioskDevices({ principalId }: { principalId: string }) {
+  const { classes } = useClasses();
+  const [kiosks, setKiosks] = useState<KioskDevice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [classId, setClassId] = useState(WHOLE_SCHOOL);
+  const [pin, setPin] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  const fetchKiosks = useCallback(async () => {
+    const { data } = await supabase
+      .from("kiosk_devices")
+      .select("*")
+      .eq("principal_id", principalId)
+      .order("created_at");
+    setKiosks(data || []);
+    setLoading(false);
+  }, [principalId]);
+
+  useEffect(() => {
+    fetchKiosks();
+  }, [fetchKiosks]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!/^\d{4,8}$/.test(pin)) {
+      toast.error("The unlock PIN must be 4 to 8 digits");
+      return;
+    }
+    setCreating(true);
+    try {
+      const code = await createKiosk(name.trim(), classId === WHOLE_SCHOOL ? null : classId, pin);
+      toast.success(`Kiosk added — pairing code ${code}`);
+      setName("");
+      setPin("");
+      fetchKiosks();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not add kiosk");
+    }
+    setCreating(false);
+  };
+
+  const handleDelete = async (kiosk: KioskDevice) => {
+    const { error } = await supabase.from("kiosk_devices").delete().eq("id", kiosk.id);
+    if (error) toast.error(error.message);
+    else {
+      toast.success(`${kiosk.name} removed`);
+      fetchKiosks();
+    }
+  };
+
+  const className = (id: string | null) => {
+    const c = classes.find((c) => c.id === id);
+    return c ? classLabel(c) : "Whole school";
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Classroom Kiosks</CardTitle>
+        <CardDescription>
+          Door-mounted devices that record students as they walk in. Open /kiosk on the device while signed
+          out and enter its pairing code; the PIN is needed to leave kiosk mode.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleCreate} className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <div className="space-y-2">
+            <Label htmlFor="kioskName">Name</Label>
+            <Input
+              id="kioskName"
+              placeholder="e.g. Room 12 door"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Students</Label>
+            <Select value={classId} onValueChange={setClassId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={WHOLE_SCHOOL}>Whole school</SelectItem>
+                {classes.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>
+                    {classLabel(c)} ({c.academic_year})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="kioskPin">Unlock PIN</Label>
+            <Input
+              id="kioskPin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="new-password"
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              required
+            />
+          </div>
+          <div className="flex items-end">
+            <Button type="submit" className="w-full" disabled={creating}>
+              <Plus className="mr-2 h-4 w-4" /> Add Kiosk
+            </Button>
+          </div>
+        </form>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Students</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">Loading...</TableCell>
+              </TableRow>
+            ) : kiosks.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">No kiosks yet</TableCell>
+              </TableRow>
+            ) : (
+              kiosks.map((k) => (
+                <TableRow key={k.id}>
+                  <TableCell className="font-medium">{k.name}</TableCell>
+                  <TableCell>{className(k.class_id)}</TableCell>
+                  <TableCell>
+                    {k.pairing_code ? (
+                      <span>
+                        Waiting to pair · code <span className="font-mono font-semibold">{k.pairing_code}</span>
+                      </span>
+                    ) : (
+                      <span className="text-muted-foreground">
+                        Paired
+                        {k.last_seen_at && ` · last arrival ${new Date(k.last_seen_at).toLocaleString()}`}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <button onClick={() => handleDelete(k)} title="Remove">
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
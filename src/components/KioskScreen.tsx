@@ -0,0 +1,379 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { format } from "date-fns";
+import Webcam from "react-webcam";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Lock, Maximize } from "lucide-react";
+import { useSchoolSettings } from "@/hooks/useSchoolSettings";
+import { useTimetable } from "@/hooks/useTimetable";
+import { useAcademicCalendar } from "@/hooks/useAcademicCalendar";
+import { dayStatus } from "@/lib/academicCalendar";
+import type { AttendanceStatus } from "@/lib/attendanceStatus";
+import { classifyMatch } from "@/lib/faceRecognition";
+import { loadStudentMatcher } from "@/lib/faceDescriptors";
+import { createFaceDetector, type FaceDetector } from "@/lib/faceDetectionClient";
+import { landmarksFromPoints } from "@/lib/faceDetectionProtocol";
+import { AdaptiveFrameRate } from "@/lib/frameRate";
+import { LivenessTracker } from "@/lib/liveness";
+import {
+  arrivalStatus,
+  KIOSK_EARLY_MINUTES,
+  recordKioskArrival,
+  verifyKioskPin,
+  type KioskDevice,
+} from "@/lib/kiosk";
+import { findArrivalPeriod, formatSlotTimes } from "@/lib/timetable";
+import type { FaceMatcher } from "face-api.js";
+
+interface KioskStudent {
+  id: string;
+  full_name: string;
+  roll_number: string;
+  photo_url: string | null;
+}
+
+interface Welcome {
+  studentId: string;
+  name: string;
+  rollNumber: string;
+  status: AttendanceStatus | null;
+  note: string;
+}
+
+// How long the welcome banner stays up, and how soon the same student is greeted again.
+const WELCOME_DISPLAY_MS = 4000;
+const GREETING_COOLDOWN_MS = 30_000;
+
+interface Props {
+  device: KioskDevice;
+  principalId: string;
+  onExit: () => void;
+}
+
+/**
+ * Full-screen door camera: recognises students as they walk in, records their arrival for
+ * the period they are arriving for and greets them by name. Leaving needs the kiosk's PIN.
+ */
+export default function KioskScreen({ device, principalId, onExit }: Props) {
+  const { settings } = useSchoolSettings();
+  const { periods } = useTimetable();
+  const { events: calendarEvents } = useAcademicCalendar();
+  const webcamRef = useRef<Webcam>(null);
+  const [students, setStudents] = useState<KioskStudent[]>([]);
+  const [detector, setDetector] = useState<FaceDetector | null>(null);
+  const [matcher, setMatcher] = useState<FaceMatcher | null>(null);
+  const [started, setStarted] = useState(false);
+  const [fullscreen, setFullscreen] = useState(!!document.fullscreenElement);
+  const [now, setNow] = useState(new Date());
+  const [welcome, setWelcome] = useState<Welcome | null>(null);
+  const [unlockOpen, setUnlockOpen] = useState(false);
+  const [pin, setPin] = useState("");
+  const [unlocking, setUnlocking] = useState(false);
+  // Arrivals recorded (or being recorded) this session, keyed by date, period and student
+  const recordedRef = useRef(new Set<string>());
+  const greetedRef = useRef(new Map<string, number>());
+  const livenessRef = useRef(
+    new LivenessTracker({ mode: settings.liveness_mode, timeoutMs: settings.liveness_timeout_seconds * 1000 })
+  );
+
+  useEffect(() => {
+    livenessRef.current.setOptions({
+      mode: settings.liveness_mode,
+      timeoutMs: settings.liveness_timeout_seconds * 1000,
+    });
+  }, [settings]);
+
+  useEffect(() => {
+    let query = supabase.from("students").select("id, full_name, roll_number, photo_url").order("roll_number");
+    if (device.class_id) query = query.eq("class_id", device.class_id);
+    query.then(({ data }) => setStudents(data || []));
+  }, [device.class_id]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let created: FaceDetector | null = null;
+    createFaceDetector(() => toast.warning("Face detection restarted on the main thread; recognition may be slower"))
+      .then((d) => {
+        if (cancelled) d.dispose();
+        else {
+          created = d;
+          setDetector(d);
+        }
+      })
+      .catch(() => toast.error("Face recognition is not available on this device"));
+    return () => {
+      cancelled = true;
+      created?.dispose();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (students.length === 0) return;
+    let cancelled = false;
+    loadStudentMatcher(principalId, students)
+      .then((loaded) => {
+        if (!cancelled) setMatcher(loaded);
+      })
+      .catch(() => toast.error("Could not load enrolled faces"));
+    return () => {
+      cancelled = true;
+    };
+  }, [principalId, students]);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 30_000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!welcome) return;
+    const timer = window.setTimeout(() => setWelcome(null), WELCOME_DISPLAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [welcome]);
+
+  // Keep students away from the browser around the kiosk
+  useEffect(() => {
+    const onFullscreenChange = () => setFullscreen(!!document.fullscreenElement);
+    const blockMenu = (e: Event) => e.preventDefault();
+    document.addEventListener("fullscreenchange", onFullscreenChange);
+    document.addEventListener("contextmenu", blockMenu);
+    return () => {
+      document.removeEventListener("fullscreenchange", onFullscreenChange);
+      document.removeEventListener("contextmenu", blockMenu);
+    };
+  }, []);
+
+  const enterFullscreen = () => {
+    document.documentElement.requestFullscreen?.().catch(() => undefined);
+  };
+
+  // Local dates, the same day the server records arrivals on in the kiosk's time zone
+  const today = format(now, "yyyy-MM-dd");
+  const schoolDay = dayStatus(calendarEvents, settings.weekly_off_days, today);
+  const arrivalSlot = findArrivalPeriod(periods, now, KIOSK_EARLY_MINUTES);
+
+  const handleArrival = useCallback(
+    (student: KioskStudent) => {
+      const at = new Date();
+      const lastGreeted = greetedRef.current.get(student.id);
+      if (lastGreeted && at.getTime() - lastGreeted < GREETING_COOLDOWN_MS) return;
+      greetedRef.current.set(student.id, at.getTime());
+
+      const greet = (status: AttendanceStatus | null, note: string) =>
+        setWelcome({ studentId: student.id, name: student.full_name, rollNumber: student.roll_number, status, note });
+
+      const date = format(at, "yyyy-MM-dd");
+      const day = dayStatus(calendarEvents, settings.weekly_off_days, date);
+      if (day.closed) {
+        greet(null, `School is closed today (${day.reason}) — nothing recorded`);
+        return;
+      }
+      const slot = findArrivalPeriod(periods, at, KIOSK_EARLY_MINUTES);
+      if (!slot) {
+        greet(null, "No class is starting now — nothing recorded");
+        return;
+      }
+      const key = `${date}:${slot.period}:${student.id}`;
+      if (recordedRef.current.has(key)) {
+        greet(null, `Already checked in for Period ${slot.period}`);
+        return;
+      }
+
+      recordedRef.current.add(key);
+      // Greet straight away with the expected result, then correct it from what the server recorded
+      const status = arrivalStatus(slot, at, settings.late_after_minutes);
+      greet(status, `Period ${slot.period} · ${status === "late" ? "marked late" : "checked in"}`);
+      recordKioskArrival(student.id)
+        .then((arrival) => {
+          if (arrival.arrival_period === slot.period && arrival.arrival_status === status && arrival.recorded) return;
+          recordedRef.current.add(`${date}:${arrival.arrival_period}:${student.id}`);
+          const note = !arrival.recorded
+            ? `Already checked in for Period ${arrival.arrival_period}`
+            : `Period ${arrival.arrival_period} · ${arrival.arrival_status === "late" ? "marked late" : "checked in"}`;
+          setWelcome((current) =>
+            current?.studentId === student.id
+              ? { ...current, status: arrival.recorded ? arrival.arrival_status : null, note }
+              : current
+          );
+        })
+        .catch((err) => {
+          recordedRef.current.delete(key);
+          greetedRef.current.delete(student.id);
+          toast.error(`Could not record ${student.full_name}`, {
+            description: err instanceof Error ? err.message : undefined,
+          });
+        });
+    },
+    [calendarEvents, periods, settings.weekly_off_days, settings.late_after_minutes]
+  );
+
+  // Detection loop: only confident, live matches of this kiosk's students count as arrivals
+  useEffect(() => {
+    if (!started || !detector || !matcher) return;
+    const liveness = livenessRef.current;
+    const thresholds = { threshold: settings.match_threshold, reviewMargin: settings.match_review_margin };
+    const frameRate = new AdaptiveFrameRate();
+    let active = true;
+    let timer: number | undefined;
+
+    const analyseFrame = async () => {
+      const video = webcamRef.current?.video;
+      if (!video || video.readyState < 2) {
+        timer = window.setTimeout(analyseFrame, frameRate.intervalMs);
+        return;
+      }
+
+      const frameStart = performance.now();
+      try {
+        const results = await detector.detect(video);
+        const seenAt = Date.now();
+        for (const result of results) {
+          const match = classifyMatch(matcher, result.descriptor, thresholds);
+          if (!match.studentId || match.confidence !== "confident") continue;
+          const student = students.find((s) => s.id === match.studentId);
+          if (!student) continue;
+          if (liveness.update(student.id, landmarksFromPoints(result.landmarks), seenAt) === "live" && active) {
+            handleArrival(student);
+          }
+        }
+      } catch (err) {
+        if (active) console.log("Face detection failed", err);
+      }
+      if (!active) return;
+      timer = window.setTimeout(analyseFrame, frameRate.next(performance.now() - frameStart));
+    };
+    timer = window.setTimeout(analyseFrame, 0);
+
+    return () => {
+      active = false;
+      window.clearTimeout(timer);
+      liveness.reset();
+    };
+  }, [started, detector, matcher, students, settings, handleArrival]);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setUnlocking(true);
+    try {
+      if (await verifyKioskPin(pin)) {
+        if (document.fullscreenElement) await document.exitFullscreen().catch(() => undefined);
+        onExit();
+      } else {
+        toast.error("Wrong PIN");
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not check PIN");
+    }
+    setPin("");
+    setUnlocking(false);
+  };
+
+  const statusLine = schoolDay.closed
+    ? `School closed — ${schoolDay.reason}`
+    : arrivalSlot
+      ? `Period ${arrivalSlot.period} · ${formatSlotTimes(arrivalSlot)}`
+      : "No class right now";
+
+  return (
+    <div className="fixed inset-0 flex select-none flex-col bg-black text-white">
+      <header className="flex items-center justify-between gap-4 px-6 py-4">
+        <div>
+          <p className="text-lg font-semibold">{device.name}</p>
+          <p className="text-sm text-white/70">{statusLine}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <p className="text-2xl font-semibold tabular-nums">
+            {now.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}
+          </p>
+          {started && !fullscreen && (
+            <Button variant="ghost" size="icon" className="text-white/70 hover:bg-white/10" onClick={enterFullscreen}>
+              <Maximize className="h-5 w-5" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-white/70 hover:bg-white/10"
+            onClick={() => setUnlockOpen(true)}
+            title="Leave kiosk mode"
+          >
+            <Lock className="h-5 w-5" />
+          </Button>
+        </div>
+      </header>
+
+      <div className="relative flex flex-1 items-center justify-center overflow-hidden">
+        {started ? (
+          <Webcam
+            ref={webcamRef}
+            audio={false}
+            className="h-full w-full object-cover"
+            videoConstraints={{ facingMode: "user", width: 640, height: 480 }}
+          />
+        ) : (
+          <Button
+            size="lg"
+            className="h-16 px-10 text-lg"
+            onClick={() => {
+              enterFullscreen();
+              setStarted(true);
+            }}
+          >
+            Start kiosk
+          </Button>
+        )}
+
+        {started && (!detector || !matcher) && (
+          <p className="absolute bottom-8 rounded-lg bg-black/60 px-4 py-2 text-white/80">
+            {!detector ? "Loading face recognition..." : "Loading enrolled faces..."}
+          </p>
+        )}
+
+        {welcome && (
+          <div className="absolute inset-x-6 bottom-8 rounded-2xl bg-background/95 p-8 text-center text-foreground shadow-2xl">
+            <p className="text-4xl font-bold sm:text-5xl">
+              Welcome, {welcome.name.split(" ")[0]} – Roll {welcome.rollNumber}
+            </p>
+            <p
+              className={`mt-3 text-xl ${
+                welcome.status === "late"
+                  ? "text-warning"
+                  : welcome.status === "present"
+                    ? "text-accent"
+                    : "text-muted-foreground"
+              }`}
+            >
+              {welcome.note}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <Dialog open={unlockOpen} onOpenChange={setUnlockOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Leave kiosk mode</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleUnlock} className="space-y-4">
+            <Input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              placeholder="Unlock PIN"
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              autoFocus
+              required
+            />
+            <Button type="submit" className="w-full" disabled={unlocking}>
+              {unlocking ? "Checking..." : "Unlock"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Check, User, X } from "lucide-react";
+
+export interface PendingReview {
+  studentId: string;
+  studentName: string;
+  rollNumber: string;
+  photoUrl: string | null;
+  crop: string;
+  distance: number;
+}
+
+interface Props {
+  reviews: PendingReview[];
+  threshold: number;
+  onConfirm: (review: PendingReview) => void;
+  onReject: (review: PendingReview) => void;
+}
+
+/** Borderline matches waiting for the teacher to confirm or reject before attendance is saved. */
+export default function MatchReviewPanel({ reviews, threshold, onConfirm, onReject }: Props) {
+  if (reviews.length === 0) return null;
+
+  return (
+    <Card className="border-warning/40">
+      <CardHeader>
+        <CardTitle className="text-lg">Review ({reviews.length})</CardTitle>
+        <CardDescription>
+          These faces look like the students below, but not clearly enough to mark them automatically
+          (match threshold {threshold.toFixed(2)}).
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {reviews.map((review) => (
+          <div key={review.studentId} className="flex items-center gap-3 rounded-lg border p-3">
+            <img src={review.crop} alt="Captured face" className="h-14 w-14 rounded-lg object-cover" />
+            {review.photoUrl ? (
+              <img src={review.photoUrl} alt={review.studentName} className="h-14 w-14 rounded-lg object-cover" />
+            ) : (
+              <div className="flex h-14 w-14 items-center justify-center rounded-lg bg-muted">
+                <User className="h-6 w-6 text-muted-foreground" />
+              </div>
+            )}
+            <div className="flex-1">
+              <p className="text-sm font-medium">{review.studentName}</p>
+              <p className="text-xs text-muted-foreground">
+                Roll: {review.rollNumber} · distance {review.distance.toFixed(3)}
+              </p>
+            </div>
+            <div className="flex gap-1">
+              <Button size="sm" variant="outline" onClick={() => onReject(review)}>
+                <X className="mr-1 h-4 w-4" /> Reject
+              </Button>
+              <Button size="sm" onClick={() => onConfirm(review)}>
+                <Check className="mr-1 h-4 w-4" /> Confirm
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
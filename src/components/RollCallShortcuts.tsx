@@ -0,0 +1,34 @@
+import { STATUS_LABELS } from "@/lib/attendanceStatus";
+import { STATUS_KEYS } from "@/lib/rollCallKeys";
+
+const Key = ({ children }: { children: React.ReactNode }) => (
+  <kbd className="inline-flex min-w-6 items-center justify-center rounded border bg-background px-1.5 py-0.5 font-mono text-xs font-semibold shadow-sm">
+    {children}
+  </kbd>
+);
+
+/** Cheat sheet shown above the student list while keyboard roll call is on. */
+export default function RollCallShortcuts({ typedRoll }: { typedRoll: string }) {
+  return (
+    <div className="rounded-lg border bg-muted/40 p-3 text-xs text-muted-foreground">
+      <div className="flex flex-wrap gap-x-4 gap-y-2">
+        <span className="flex items-center gap-1">
+          <Key>↑</Key>
+          <Key>↓</Key> move
+        </span>
+        {Object.entries(STATUS_KEYS).map(([key, status]) => (
+          <span key={key} className="flex items-center gap-1">
+            <Key>{key.toUpperCase()}</Key> {STATUS_LABELS[status].toLowerCase()}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <Key>0–9</Key> jump to roll number
+        </span>
+        <span className="flex items-center gap-1">
+          <Key>Ctrl</Key>+<Key>Enter</Key> save
+        </span>
+      </div>
+      {typedRoll && <p className="mt-2 font-medium text-foreground">Roll {typedRoll}…</p>}
+    </div>
+  );
+}
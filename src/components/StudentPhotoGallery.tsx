@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { Star, Trash2, Upload } from "lucide-react";
+import {
+  addStudentPhoto,
+  removeStudentPhoto,
+  reportEnrollment,
+  setPrimaryStudentPhoto,
+  type StudentPhoto,
+} from "@/lib/studentPhotos";
+
+interface Props {
+  student: { id: string; full_name: string } | null;
+  principalId: string | null | undefined;
+  onOpenChange: (open: boolean) => void;
+  onChanged: () => void;
+}
+
+export default function StudentPhotoGallery({ student, principalId, onOpenChange, onChanged }: Props) {
+  const [photos, setPhotos] = useState<StudentPhoto[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const fetchPhotos = useCallback(async () => {
+    if (!student) return;
+    const { data } = await supabase
+      .from("student_photos")
+      .select("*")
+      .eq("student_id", student.id)
+      .order("created_at");
+    setPhotos(data || []);
+    setLoading(false);
+  }, [student]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchPhotos();
+  }, [fetchPhotos]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+      await fetchPhotos();
+      onChanged();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Something went wrong");
+    }
+    setBusy(false);
+  };
+
+  const handleAdd = (files: File[]) => {
+    if (!student || !principalId || files.length === 0) return;
+    run(async () => {
+      for (const file of files) {
+        const { enrollment } = await addStudentPhoto(student.id, principalId, file);
+        reportEnrollment(enrollment);
+      }
+      toast.success(files.length > 1 ? `${files.length} photos added` : "Photo added");
+    });
+  };
+
+  const handleSetPrimary = (photo: StudentPhoto) =>
+    run(async () => {
+      await setPrimaryStudentPhoto(photo.id);
+      toast.success("Primary photo updated");
+    });
+
+  const handleRemove = (photo: StudentPhoto) =>
+    run(async () => {
+      await removeStudentPhoto(photo);
+      toast.success("Photo removed");
+    });
+
+  return (
+    <Dialog open={!!student} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Photos — {student?.full_name}</DialogTitle>
+          <DialogDescription>
+            Add photos from several angles and lighting conditions. All photos are used for recognition;
+            the primary photo is shown in lists.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="py-8 text-center text-muted-foreground">Loading...</p>
+        ) : photos.length === 0 ? (
+          <p className="py-8 text-center text-muted-foreground">No photos uploaded yet</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+            {photos.map((photo) => (
+              <div key={photo.id} className="relative overflow-hidden rounded-lg border">
+                <img src={photo.photo_url} alt={student?.full_name} className="aspect-square w-full object-cover" />
+                {photo.is_primary && (
+                  <span className="absolute left-2 top-2 rounded-full bg-primary px-2 py-0.5 text-xs font-medium text-primary-foreground">
+                    Primary
+                  </span>
+                )}
+                <div className="absolute bottom-2 right-2 flex gap-1">
+                  {!photo.is_primary && (
+                    <Button
+                      size="icon"
+                      variant="secondary"
+                      className="h-8 w-8"
+                      disabled={busy}
+                      onClick={() => handleSetPrimary(photo)}
+                      title="Set as primary"
+                    >
+                      <Star className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    size="icon"
+                    variant="destructive"
+                    className="h-8 w-8"
+                    disabled={busy}
+                    onClick={() => handleRemove(photo)}
+                    title="Remove photo"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button asChild variant="outline" disabled={busy}>
+          <label className="cursor-pointer">
+            <Upload className="mr-2 h-4 w-4" /> {busy ? "Working..." : "Add Photos"}
+            <input
+              type="file"
+              className="hidden"
+              accept="image/*"
+              multiple
+              disabled={busy}
+              onChange={(e) => {
+                handleAdd(Array.from(e.target.files ?? []));
+                e.target.value = "";
+              }}
+            />
+          </label>
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
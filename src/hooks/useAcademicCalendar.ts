@@ -0,0 +1,22 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { fetchCalendarEvents, type CalendarEvent } from "@/lib/academicCalendar";
+
+/** Calendar events (terms, holidays, exams, half-days) of the signed-in user's school. */
+export function useAcademicCalendar() {
+  const { user } = useAuth();
+  const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    setEvents(await fetchCalendarEvents());
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { events, loading, refresh };
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useContext, createContext, ReactNode } from "react";
+import { useState, useEffect, useContext, useRef, createContext, ReactNode } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import type { User, Session } from "@supabase/supabase-js";
 
@@ -26,18 +26,24 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [session, setSession] = useState<Session | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
+  // Only the latest profile request may set the profile, so a slow earlier one can't undo it
+  const profileRequest = useRef(0);
 
   const fetchProfile = async (userId: string) => {
+    const request = ++profileRequest.current;
     const { data } = await supabase
       .from("profiles")
       .select("*")
       .eq("id", userId)
       .single();
-    setProfile(data);
+    if (request === profileRequest.current) setProfile(data);
   };
 
+  // Reads the signed-in user from the client rather than state, which lags behind a sign-in
+  // made in the same handler (such as pairing a kiosk)
   const refreshProfile = async () => {
-    if (user) await fetchProfile(user.id);
+    const { data: { user: current } } = await supabase.auth.getUser();
+    if (current) await fetchProfile(current.id);
   };
 
   useEffect(() => {
@@ -68,6 +74,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const signOut = async () => {
     await supabase.auth.signOut();
+    profileRequest.current++;
     setUser(null);
     setSession(null);
     setProfile(null);
@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { fetchClasses, type SchoolClass } from "@/lib/classes";
+import { cacheRoster, loadCachedRoster } from "@/lib/offlineStore";
+
+/** Classes of the signed-in user's school, from the copy saved on this device when offline. */
+export function useClasses() {
+  const { user } = useAuth();
+  const [classes, setClasses] = useState<SchoolClass[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    const cacheKey = `classes:${user.id}`;
+    try {
+      const loaded = await fetchClasses();
+      setClasses(loaded);
+      cacheRoster(cacheKey, loaded).catch(() => undefined);
+    } catch {
+      const cached = await loadCachedRoster<SchoolClass>(cacheKey).catch(() => undefined);
+      setClasses(cached?.students ?? []);
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { classes, loading, refresh };
+}
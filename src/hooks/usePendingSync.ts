@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { syncPendingAttendance } from "@/lib/attendanceSync";
+import { listPendingBatches, QUEUE_CHANGED_EVENT, type PendingAttendanceBatch } from "@/lib/offlineStore";
+import { toast } from "sonner";
+
+// How often queued attendance is retried while the browser believes it is online.
+const RETRY_INTERVAL_MS = 60_000;
+
+/**
+ * Tracks attendance batches saved on this device and sends them once the connection is back:
+ * immediately on the browser's `online` event and periodically while anything is pending.
+ * Batches the server refused for good are listed separately as `failed`.
+ */
+export function usePendingSync() {
+  const { user } = useAuth();
+  const [pending, setPending] = useState(0);
+  const [failed, setFailed] = useState<PendingAttendanceBatch[]>([]);
+  const [lastError, setLastError] = useState<string | null>(null);
+  const [syncing, setSyncing] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    try {
+      const batches = (await listPendingBatches()).filter((b) => b.userId === user.id);
+      const waiting = batches.filter((b) => !b.failed);
+      setPending(waiting.length);
+      setFailed(batches.filter((b) => b.failed));
+      setLastError(waiting.find((b) => b.lastError)?.lastError ?? null);
+    } catch {
+      setPending(0);
+      setFailed([]);
+    }
+  }, [user]);
+
+  const syncNow = useCallback(async () => {
+    if (!user || !navigator.onLine) return;
+    setSyncing(true);
+    try {
+      const delivered = await syncPendingAttendance(user.id);
+      if (delivered > 0) {
+        toast.success(`Synced ${delivered} offline attendance ${delivered === 1 ? "batch" : "batches"}`);
+      }
+    } catch (err) {
+      console.log("Attendance sync failed", err);
+    }
+    setSyncing(false);
+  }, [user]);
+
+  useEffect(() => {
+    refresh().then(syncNow);
+    window.addEventListener(QUEUE_CHANGED_EVENT, refresh);
+    window.addEventListener("online", syncNow);
+    return () => {
+      window.removeEventListener(QUEUE_CHANGED_EVENT, refresh);
+      window.removeEventListener("online", syncNow);
+    };
+  }, [refresh, syncNow]);
+
+  useEffect(() => {
+    if (pending === 0) return;
+    const interval = window.setInterval(syncNow, RETRY_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [pending, syncNow]);
+
+  return { pending, failed, lastError, syncing, syncNow };
+}
@@ -0,0 +1,109 @@
+import { useEffect, useRef, useState } from "react";
+import type { AttendanceStatus } from "@/lib/attendanceStatus";
+import { findRollIndex, ROLL_JUMP_TIMEOUT_MS, statusForKey } from "@/lib/rollCallKeys";
+
+interface Options {
+  enabled: boolean;
+  rollNumbers: string[];
+  onStatus: (index: number, status: AttendanceStatus) => void;
+  onSave: () => void;
+}
+
+// Keys typed into form fields belong to the field, not to roll call.
+function isTypingTarget(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName) ||
+    target.getAttribute("role") === "combobox"
+  );
+}
+
+/**
+ * Keyboard roll call over a list of students: arrows move the focused row, a status letter
+ * marks it and moves on, digits jump to a roll number and Ctrl+Enter saves.
+ */
+export function useRollCallKeyboard({ enabled, rollNumbers, onStatus, onSave }: Options) {
+  const [focusedIndex, setFocusedIndex] = useState(0);
+  const [typedRoll, setTypedRoll] = useState("");
+  // Latest values for the window listener, which is only registered once per mode change
+  const latest = useRef({ rollNumbers, onStatus, onSave, focusedIndex, typedRoll });
+  latest.current = { rollNumbers, onStatus, onSave, focusedIndex, typedRoll };
+
+  useEffect(() => {
+    setFocusedIndex((index) => Math.min(index, Math.max(0, rollNumbers.length - 1)));
+  }, [rollNumbers.length]);
+
+  useEffect(() => {
+    if (!typedRoll) return;
+    const timer = window.setTimeout(() => setTypedRoll(""), ROLL_JUMP_TIMEOUT_MS);
+    return () => window.clearTimeout(timer);
+  }, [typedRoll]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setTypedRoll("");
+      return;
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isTypingTarget(event.target)) return;
+      const { rollNumbers, onStatus, onSave, focusedIndex, typedRoll } = latest.current;
+      const last = rollNumbers.length - 1;
+      if (last < 0) return;
+
+      if (event.key === "Enter" && (event.ctrlKey || event.metaKey)) {
+        event.preventDefault();
+        onSave();
+        return;
+      }
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+      const move = (index: number) => {
+        event.preventDefault();
+        setFocusedIndex(Math.max(0, Math.min(last, index)));
+      };
+      switch (event.key) {
+        case "ArrowDown":
+          return move(focusedIndex + 1);
+        case "ArrowUp":
+          return move(focusedIndex - 1);
+        case "Home":
+          return move(0);
+        case "End":
+          return move(last);
+        case "Escape":
+          setTypedRoll("");
+          return;
+        case "Backspace":
+          if (typedRoll) {
+            event.preventDefault();
+            setTypedRoll(typedRoll.slice(0, -1));
+          }
+          return;
+      }
+
+      if (/^[0-9]$/.test(event.key)) {
+        event.preventDefault();
+        const typed = typedRoll + event.key;
+        setTypedRoll(typed);
+        const index = findRollIndex(rollNumbers, typed);
+        if (index !== -1) setFocusedIndex(index);
+        return;
+      }
+
+      const status = statusForKey(event.key);
+      if (status) {
+        event.preventDefault();
+        setTypedRoll("");
+        onStatus(focusedIndex, status);
+        setFocusedIndex(Math.min(last, focusedIndex + 1));
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [enabled]);
+
+  return { focusedIndex, setFocusedIndex, typedRoll };
+}
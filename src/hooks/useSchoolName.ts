@@ -0,0 +1,27 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+
+/** Name of the signed-in user's school, as entered by its principal at registration. */
+export function useSchoolName() {
+  const { profile } = useAuth();
+  const [schoolName, setSchoolName] = useState<string | null>(null);
+
+  const principalId = profile?.role === "principal" ? profile.id : profile?.principal_id;
+
+  useEffect(() => {
+    if (profile?.school_name) {
+      setSchoolName(profile.school_name);
+      return;
+    }
+    if (!principalId) return;
+    supabase
+      .from("profiles")
+      .select("school_name")
+      .eq("id", principalId)
+      .maybeSingle()
+      .then(({ data }) => setSchoolName(data?.school_name ?? null));
+  }, [profile?.school_name, principalId]);
+
+  return schoolName;
+}
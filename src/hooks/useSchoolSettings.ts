@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { DEFAULT_SCHOOL_SETTINGS, fetchSchoolSettings, type SchoolSettings } from "@/lib/schoolSettings";
+
+/** Settings of the signed-in user's school; defaults are returned until the row has loaded. */
+export function useSchoolSettings() {
+  const { profile } = useAuth();
+  const [settings, setSettings] = useState<SchoolSettings>(DEFAULT_SCHOOL_SETTINGS);
+  const [loading, setLoading] = useState(true);
+
+  const principalId = profile?.role === "principal" ? profile.id : profile?.principal_id;
+
+  const refresh = useCallback(async () => {
+    if (!principalId) return;
+    setSettings(await fetchSchoolSettings(principalId));
+    setLoading(false);
+  }, [principalId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { settings, loading, principalId, refresh };
+}
@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { classPeriods, DEFAULT_TIMETABLE, fetchTimetable, type TimetableSlot } from "@/lib/timetable";
+
+/** Timetable of the signed-in user's school; the default schedule is returned until it has loaded. */
+export function useTimetable() {
+  const { profile } = useAuth();
+  const [timetable, setTimetable] = useState<TimetableSlot[]>(DEFAULT_TIMETABLE);
+  const [loading, setLoading] = useState(true);
+
+  const principalId = profile?.role === "principal" ? profile.id : profile?.principal_id;
+
+  const refresh = useCallback(async () => {
+    if (!principalId) return;
+    setTimetable(await fetchTimetable(principalId));
+    setLoading(false);
+  }, [principalId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const periods = useMemo(() => classPeriods(timetable), [timetable]);
+
+  return { timetable, periods, loading, principalId, refresh };
+}
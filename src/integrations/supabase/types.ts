@@ -14,35 +14,134 @@ export type Database = {
   }
   public: {
     Tables: {
+      academic_calendar_events: {
+        Row: {
+          created_at: string
+          end_date: string
+          id: string
+          kind: string
+          principal_id: string
+          start_date: string
+          title: string
+        }
+        Insert: {
+          created_at?: string
+          end_date: string
+          id?: string
+          kind: string
+          principal_id: string
+          start_date: string
+          title: string
+        }
+        Update: {
+          created_at?: string
+          end_date?: string
+          id?: string
+          kind?: string
+          principal_id?: string
+          start_date?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "academic_calendar_events_principal_id_fkey"
+            columns: ["principal_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attendance_record_edits: {
+        Row: {
+          edited_at: string
+          edited_by: string
+          id: string
+          new_status: string
+          previous_status: string
+          record_id: string
+        }
+        Insert: {
+          edited_at?: string
+          edited_by: string
+          id?: string
+          new_status: string
+          previous_status: string
+          record_id: string
+        }
+        Update: {
+          edited_at?: string
+          edited_by?: string
+          id?: string
+          new_status?: string
+          previous_status?: string
+          record_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_record_edits_edited_by_fkey"
+            columns: ["edited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_record_edits_record_id_fkey"
+            columns: ["record_id"]
+            isOneToOne: false
+            referencedRelation: "attendance_records"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       attendance_records: {
         Row: {
+          arrived_at: string | null
+          class_id: string | null
           created_at: string
           date: string
           id: string
           period: number
-          status: string
+          status: Database["public"]["Enums"]["attendance_status"]
           student_id: string
+          updated_at: string | null
+          updated_by: string | null
           verified_by: string
         }
         Insert: {
+          arrived_at?: string | null
+          class_id?: string | null
           created_at?: string
           date: string
           id?: string
           period: number
-          status: string
+          status: Database["public"]["Enums"]["attendance_status"]
           student_id: string
+          updated_at?: string | null
+          updated_by?: string | null
           verified_by: string
         }
         Update: {
+          arrived_at?: string | null
+          class_id?: string | null
           created_at?: string
           date?: string
           id?: string
           period?: number
-          status?: string
+          status?: Database["public"]["Enums"]["attendance_status"]
           student_id?: string
+          updated_at?: string | null
+          updated_by?: string | null
           verified_by?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "attendance_records_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "attendance_records_student_id_fkey"
             columns: ["student_id"]
@@ -50,6 +149,13 @@ export type Database = {
             referencedRelation: "students"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "attendance_records_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "attendance_records_verified_by_fkey"
             columns: ["verified_by"]
@@ -59,6 +165,96 @@ export type Database = {
           },
         ]
       }
+      classes: {
+        Row: {
+          academic_year: string
+          created_at: string
+          grade: string
+          id: string
+          principal_id: string
+          section: string
+        }
+        Insert: {
+          academic_year: string
+          created_at?: string
+          grade: string
+          id?: string
+          principal_id: string
+          section?: string
+        }
+        Update: {
+          academic_year?: string
+          created_at?: string
+          grade?: string
+          id?: string
+          principal_id?: string
+          section?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "classes_principal_id_fkey"
+            columns: ["principal_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      faculty_assignments: {
+        Row: {
+          class_id: string
+          created_at: string
+          faculty_id: string
+          id: string
+          period: number
+          principal_id: string
+          subject: string
+          weekday: number
+        }
+        Insert: {
+          class_id: string
+          created_at?: string
+          faculty_id: string
+          id?: string
+          period: number
+          principal_id: string
+          subject: string
+          weekday: number
+        }
+        Update: {
+          class_id?: string
+          created_at?: string
+          faculty_id?: string
+          id?: string
+          period?: number
+          principal_id?: string
+          subject?: string
+          weekday?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "faculty_assignments_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "faculty_assignments_faculty_id_fkey"
+            columns: ["faculty_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "faculty_assignments_principal_id_fkey"
+            columns: ["principal_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       faculty_codes: {
         Row: {
           code: string
@@ -91,6 +287,211 @@ export type Database = {
           },
         ]
       }
+      kiosk_devices: {
+        Row: {
+          class_id: string | null
+          created_at: string
+          device_user_id: string | null
+          failed_pin_attempts: number
+          id: string
+          last_seen_at: string | null
+          name: string
+          paired_at: string | null
+          pairing_code: string | null
+          pin_locked_until: string | null
+          principal_id: string
+          timezone: string | null
+          unlock_pin_hash: string
+        }
+        Insert: {
+          class_id?: string | null
+          created_at?: string
+          device_user_id?: string | null
+          failed_pin_attempts?: number
+          id?: string
+          last_seen_at?: string | null
+          name: string
+          paired_at?: string | null
+          pairing_code?: string | null
+          pin_locked_until?: string | null
+          principal_id: string
+          timezone?: string | null
+          unlock_pin_hash: string
+        }
+        Update: {
+          class_id?: string | null
+          created_at?: string
+          device_user_id?: string | null
+          failed_pin_attempts?: number
+          id?: string
+          last_seen_at?: string | null
+          name?: string
+          paired_at?: string | null
+          pairing_code?: string | null
+          pin_locked_until?: string | null
+          principal_id?: string
+          timezone?: string | null
+          unlock_pin_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kiosk_devices_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kiosk_devices_device_user_id_fkey"
+            columns: ["device_user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kiosk_devices_principal_id_fkey"
+            columns: ["principal_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_requests: {
+        Row: {
+          attachment_path: string | null
+          created_at: string
+          end_date: string
+          id: string
+          principal_id: string
+          reason: string
+          requested_by: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          start_date: string
+          status: string
+          student_id: string
+        }
+        Insert: {
+          attachment_path?: string | null
+          created_at?: string
+          end_date: string
+          id?: string
+          principal_id: string
+          reason: string
+          requested_by: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          start_date: string
+          status?: string
+          student_id: string
+        }
+        Update: {
+          attachment_path?: string | null
+          created_at?: string
+          end_date?: string
+          id?: string
+          principal_id?: string
+          reason?: string
+          requested_by?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          start_date?: string
+          status?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_requests_principal_id_fkey"
+            columns: ["principal_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_requests_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_requests_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_requests_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      match_reviews: {
+        Row: {
+          created_at: string
+          date: string
+          decision: string
+          distance: number
+          id: string
+          period: number
+          principal_id: string
+          reviewed_by: string
+          student_id: string
+          threshold: number
+        }
+        Insert: {
+          created_at?: string
+          date: string
+          decision: string
+          distance: number
+          id?: string
+          period: number
+          principal_id: string
+          reviewed_by: string
+          student_id: string
+          threshold: number
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          decision?: string
+          distance?: number
+          id?: string
+          period?: number
+          principal_id?: string
+          reviewed_by?: string
+          student_id?: string
+          threshold?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "match_reviews_principal_id_fkey"
+            columns: ["principal_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "match_reviews_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "match_reviews_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
@@ -126,8 +527,191 @@ export type Database = {
           },
         ]
       }
+      school_card_keys: {
+        Row: {
+          created_at: string
+          principal_id: string
+          secret: string
+        }
+        Insert: {
+          created_at?: string
+          principal_id: string
+          secret?: string
+        }
+        Update: {
+          created_at?: string
+          principal_id?: string
+          secret?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "school_card_keys_principal_id_fkey"
+            columns: ["principal_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      school_settings: {
+        Row: {
+          auto_mark_present: boolean
+          late_after_minutes: number
+          liveness_mode: string
+          liveness_timeout_seconds: number
+          match_review_margin: number
+          match_threshold: number
+          period_grace_minutes: number
+          principal_id: string
+          sleepy_duration_seconds: number
+          sleepy_eye_aspect_ratio: number
+          sleepy_head_droop_ratio: number
+          updated_at: string
+          weekly_off_days: number[]
+        }
+        Insert: {
+          auto_mark_present?: boolean
+          late_after_minutes?: number
+          liveness_mode?: string
+          liveness_timeout_seconds?: number
+          match_review_margin?: number
+          match_threshold?: number
+          period_grace_minutes?: number
+          principal_id: string
+          sleepy_duration_seconds?: number
+          sleepy_eye_aspect_ratio?: number
+          sleepy_head_droop_ratio?: number
+          updated_at?: string
+          weekly_off_days?: number[]
+        }
+        Update: {
+          auto_mark_present?: boolean
+          late_after_minutes?: number
+          liveness_mode?: string
+          liveness_timeout_seconds?: number
+          match_review_margin?: number
+          match_threshold?: number
+          period_grace_minutes?: number
+          principal_id?: string
+          sleepy_duration_seconds?: number
+          sleepy_eye_aspect_ratio?: number
+          sleepy_head_droop_ratio?: number
+          updated_at?: string
+          weekly_off_days?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "school_settings_principal_id_fkey"
+            columns: ["principal_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_face_descriptors: {
+        Row: {
+          created_at: string
+          descriptor: number[]
+          id: string
+          model_version: string
+          principal_id: string
+          source_image: string | null
+          student_id: string
+          student_photo_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          descriptor: number[]
+          id?: string
+          model_version: string
+          principal_id: string
+          source_image?: string | null
+          student_id: string
+          student_photo_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          descriptor?: number[]
+          id?: string
+          model_version?: string
+          principal_id?: string
+          source_image?: string | null
+          student_id?: string
+          student_photo_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_face_descriptors_principal_id_fkey"
+            columns: ["principal_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_face_descriptors_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_face_descriptors_student_photo_id_fkey"
+            columns: ["student_photo_id"]
+            isOneToOne: false
+            referencedRelation: "student_photos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_photos: {
+        Row: {
+          created_at: string
+          id: string
+          is_primary: boolean
+          photo_url: string
+          principal_id: string
+          storage_path: string
+          student_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_primary?: boolean
+          photo_url: string
+          principal_id: string
+          storage_path: string
+          student_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_primary?: boolean
+          photo_url?: string
+          principal_id?: string
+          storage_path?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_photos_principal_id_fkey"
+            columns: ["principal_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_photos_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       students: {
         Row: {
+          class_id: string | null
           created_at: string
           full_name: string
           id: string
@@ -136,6 +720,7 @@ export type Database = {
           roll_number: string
         }
         Insert: {
+          class_id?: string | null
           created_at?: string
           full_name: string
           id?: string
@@ -144,6 +729,7 @@ export type Database = {
           roll_number: string
         }
         Update: {
+          class_id?: string | null
           created_at?: string
           full_name?: string
           id?: string
@@ -152,6 +738,13 @@ export type Database = {
           roll_number?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "students_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "students_principal_id_fkey"
             columns: ["principal_id"]
@@ -161,15 +754,246 @@ export type Database = {
           },
         ]
       }
+      timetable_periods: {
+        Row: {
+          created_at: string
+          end_time: string
+          id: string
+          is_break: boolean
+          is_optional: boolean
+          label: string
+          period: number | null
+          principal_id: string
+          start_time: string
+        }
+        Insert: {
+          created_at?: string
+          end_time: string
+          id?: string
+          is_break?: boolean
+          is_optional?: boolean
+          label: string
+          period?: number | null
+          principal_id: string
+          start_time: string
+        }
+        Update: {
+          created_at?: string
+          end_time?: string
+          id?: string
+          is_break?: boolean
+          is_optional?: boolean
+          label?: string
+          period?: number | null
+          principal_id?: string
+          start_time?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "timetable_periods_principal_id_fkey"
+            columns: ["principal_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      unknown_faces: {
+        Row: {
+          created_at: string
+          date: string
+          faculty_id: string
+          id: string
+          period: number
+          principal_id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          storage_path: string
+          student_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          date: string
+          faculty_id: string
+          id?: string
+          period: number
+          principal_id: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          storage_path: string
+          student_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          faculty_id?: string
+          id?: string
+          period?: number
+          principal_id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          storage_path?: string
+          student_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "unknown_faces_faculty_id_fkey"
+            columns: ["faculty_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "unknown_faces_principal_id_fkey"
+            columns: ["principal_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "unknown_faces_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "unknown_faces_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      attendance_report: {
+        Args: {
+          p_start: string
+          p_end: string
+          p_class_id?: string | null
+          p_periods?: number[] | null
+        }
+        Returns: {
+          student_id: string
+          full_name: string
+          roll_number: string
+          class_id: string | null
+          present: number
+          late: number
+          sleepy: number
+          absent: number
+          excused: number
+          medical_leave: number
+          on_duty: number
+          sessions: number
+          percentage: number | null
+        }[]
+      }
+      attendance_status_credit: {
+        Args: { p_status: Database["public"]["Enums"]["attendance_status"] }
+        Returns: number
+      }
+      can_mark_attendance: {
+        Args: { p_class_id: string; p_date: string; p_period: number }
+        Returns: boolean
+      }
+      can_mark_student_attendance: {
+        Args: {
+          p_student_id: string
+          p_class_id: string
+          p_date: string
+          p_period: number
+        }
+        Returns: boolean
+      }
+      claim_kiosk: { Args: { p_code: string }; Returns: string }
+      class_attendance_rates: {
+        Args: { p_start: string; p_end: string }
+        Returns: {
+          class_id: string
+          sessions: number
+          percentage: number | null
+        }[]
+      }
+      create_kiosk: {
+        Args: {
+          p_name: string
+          p_class_id: string | null
+          p_unlock_pin: string
+          p_timezone: string
+        }
+        Returns: string
+      }
+      current_principal_id: { Args: Record<PropertyKey, never>; Returns: string }
+      daily_attendance_rates: {
+        Args: { p_start: string; p_end: string }
+        Returns: {
+          date: string
+          sessions: number
+          percentage: number | null
+        }[]
+      }
+      in_dashboard_scope: {
+        Args: { p_class_id: string; p_verified_by: string }
+        Returns: boolean
+      }
+      is_kiosk: { Args: Record<PropertyKey, never>; Returns: boolean }
+      is_school_day: {
+        Args: { p_principal_id: string; p_date: string }
+        Returns: boolean
+      }
+      issue_student_cards: {
+        Args: { p_student_ids: string[] }
+        Returns: {
+          student_id: string
+          payload: string
+        }[]
+      }
+      period_status_counts: {
+        Args: { p_start: string; p_end: string }
+        Returns: {
+          period: number
+          status: Database["public"]["Enums"]["attendance_status"]
+          sessions: number
+        }[]
+      }
+      record_kiosk_arrival: {
+        Args: { p_student_id: string }
+        Returns: {
+          arrival_period: number
+          arrival_status: Database["public"]["Enums"]["attendance_status"]
+          recorded: boolean
+        }[]
+      }
+      save_timetable: { Args: { p_periods: Json }; Returns: undefined }
+      set_primary_student_photo: {
+        Args: { p_photo_id: string }
+        Returns: undefined
+      }
+      student_card_signature: {
+        Args: { p_message: string; p_secret: string }
+        Returns: string
+      }
+      verify_kiosk_pin: { Args: { p_pin: string }; Returns: boolean }
+      verify_student_card: { Args: { p_payload: string }; Returns: string }
     }
     Enums: {
-      [_ in never]: never
+      attendance_status:
+        | "present"
+        | "late"
+        | "sleepy"
+        | "absent"
+        | "excused"
+        | "medical_leave"
+        | "on_duty"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -296,6 +1120,16 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      attendance_status: [
+        "present",
+        "late",
+        "sleepy",
+        "absent",
+        "excused",
+        "medical_leave",
+        "on_duty",
+      ],
+    },
   },
 } as const
@@ -0,0 +1,48 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { WEEKDAYS, weekdayOf } from "@/lib/facultyAssignments";
+
+export type CalendarEventKind = "term" | "holiday" | "exam" | "half_day";
+
+export type CalendarEvent = Omit<Tables<"academic_calendar_events">, "kind"> & { kind: CalendarEventKind };
+
+export const EVENT_KIND_LABELS: Record<CalendarEventKind, string> = {
+  term: "Term",
+  holiday: "Holiday",
+  exam: "Exam",
+  half_day: "Half-day",
+};
+
+export interface DayStatus {
+  // No attendance is taken and the day is left out of statistics
+  closed: boolean;
+  reason?: string;
+  // Events covering the day, e.g. an exam or half-day note on an open day
+  events: CalendarEvent[];
+}
+
+/**
+ * Whether the school is open on a YYYY-MM-DD date. Weekly off days and holidays close it,
+ * and once any term is defined, so does every day outside the terms.
+ * Mirrors public.is_school_day.
+ */
+export function dayStatus(events: CalendarEvent[], weeklyOffDays: number[], date: string): DayStatus {
+  const covering = events.filter((e) => e.start_date <= date && date <= e.end_date);
+
+  const holiday = covering.find((e) => e.kind === "holiday");
+  if (holiday) return { closed: true, reason: holiday.title, events: covering };
+
+  const weekday = weekdayOf(date);
+  if (weeklyOffDays.includes(weekday)) return { closed: true, reason: WEEKDAYS[weekday], events: covering };
+
+  const hasTerms = events.some((e) => e.kind === "term");
+  if (hasTerms && !covering.some((e) => e.kind === "term")) {
+    return { closed: true, reason: "Outside term", events: covering };
+  }
+  return { closed: false, events: covering };
+}
+
+export async function fetchCalendarEvents(): Promise<CalendarEvent[]> {
+  const { data } = await supabase.from("academic_calendar_events").select("*").order("start_date");
+  return (data || []).map((e) => ({ ...e, kind: e.kind as CalendarEventKind }));
+}
@@ -0,0 +1,172 @@
+export type ExportFormat = "csv" | "xlsx" | "pdf";
+
+export type ExportCellValue = string | number | null;
+
+/**
+ * One column of an export. `type` decides how values are written: numbers stay numeric,
+ * dates are ISO "yyyy-mm-dd" strings written as real dates in XLSX, and percentages are
+ * 0-100 values shown with a percent sign.
+ */
+export interface ExportColumn<T> {
+  header: string;
+  type: "string" | "number" | "date" | "percent";
+  value: (row: T) => ExportCellValue;
+  /** Approximate width in characters, for XLSX. */
+  width?: number;
+}
+
+export interface RegisterPdfOptions<T> {
+  title: string;
+  schoolName: string | null;
+  /** Lines under the title, such as the date and the active filters. */
+  details: string[];
+  columns: ExportColumn<T>[];
+  rows: T[];
+  /** Faculty who verified the attendance; each gets a signature line. */
+  signatories: string[];
+}
+
+// Spreadsheet apps run cells starting with these as formulas.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function formatCell<T>(column: ExportColumn<T>, row: T): string {
+  const value = column.value(row);
+  if (value === null) return "";
+  if (column.type === "percent" && typeof value === "number") return `${value}%`;
+  return String(value);
+}
+
+function csvField(value: ExportCellValue, type: ExportColumn<unknown>["type"]) {
+  if (value === null) return "";
+  let text = String(value);
+  if (type === "string" && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** CSV with one header row. Numbers and percentages are written bare so they import as numbers. */
+export function toCsv<T>(columns: ExportColumn<T>[], rows: T[]) {
+  const lines = [columns.map((c) => csvField(c.header, "string")).join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((c) => csvField(c.value(row), c.type)).join(","));
+  }
+  return lines.join("\r\n");
+}
+
+/** File name from the given parts, e.g. "attendance-2026-10-19-period-2.csv". */
+export function exportFileName(parts: (string | number | null | undefined)[], format: ExportFormat) {
+  const base = parts
+    .filter((p) => p !== null && p !== undefined && p !== "")
+    .map((p) => String(p).toLowerCase().replace(/[^a-z0-9-]+/g, "-").replace(/^-+|-+$/g, ""))
+    .filter(Boolean)
+    .join("-");
+  return `${base || "export"}.${format}`;
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function downloadCsv<T>(fileName: string, columns: ExportColumn<T>[], rows: T[]) {
+  // The byte order mark makes Excel read names as UTF-8
+  downloadBlob(new Blob(["\uFEFF", toCsv(columns, rows)], { type: "text/csv;charset=utf-8" }), fileName);
+}
+
+export async function downloadXlsx<T>(fileName: string, sheetName: string, columns: ExportColumn<T>[], rows: T[]) {
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(sheetName.slice(0, 31), { views: [{ state: "frozen", ySplit: 1 }] });
+  sheet.columns = columns.map((c) => ({
+    header: c.header,
+    width: c.width ?? Math.max(10, c.header.length + 2),
+    style: {
+      numFmt: c.type === "date" ? "yyyy-mm-dd" : c.type === "percent" ? "0.0%" : c.type === "number" ? "0" : "@",
+    },
+  }));
+  sheet.getRow(1).font = { bold: true };
+
+  for (const row of rows) {
+    sheet.addRow(
+      columns.map((c) => {
+        const value = c.value(row);
+        if (value === null) return null;
+        if (c.type === "date") return new Date(`${value}T00:00:00Z`);
+        if (c.type === "percent") return Number(value) / 100;
+        return value;
+      })
+    );
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  downloadBlob(
+    new Blob([buffer], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" }),
+    fileName
+  );
+}
+
+/** A printable register: school name and title, the table, then signature lines for the verifying faculty. */
+export async function downloadRegisterPdf<T>(fileName: string, options: RegisterPdfOptions<T>) {
+  const [{ jsPDF }, { default: autoTable }] = await Promise.all([import("jspdf"), import("jspdf-autotable")]);
+  const landscape = options.columns.length > 7;
+  const doc = new jsPDF({ orientation: landscape ? "landscape" : "portrait", unit: "pt", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 40;
+
+  let y = margin;
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(16);
+  doc.text(options.schoolName || "Attendance Register", pageWidth / 2, y, { align: "center" });
+  y += 20;
+  doc.setFontSize(12);
+  doc.text(options.title, pageWidth / 2, y, { align: "center" });
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  for (const line of options.details) {
+    y += 14;
+    doc.text(line, pageWidth / 2, y, { align: "center" });
+  }
+
+  autoTable(doc, {
+    startY: y + 16,
+    margin: { left: margin, right: margin },
+    head: [options.columns.map((c) => c.header)],
+    body: options.rows.map((row) => options.columns.map((c) => formatCell(c, row))),
+    styles: { fontSize: 8, cellPadding: 4 },
+    headStyles: { fillColor: [241, 245, 249], textColor: 20, fontStyle: "bold" },
+    columnStyles: Object.fromEntries(
+      options.columns.map((c, i) => [i, { halign: c.type === "number" || c.type === "percent" ? "right" : "left" }])
+    ),
+    didDrawPage: () => {
+      doc.setFontSize(8);
+      doc.text(`Generated ${new Date().toLocaleString()}`, margin, pageHeight - 20);
+    },
+  });
+
+  const signatories = options.signatories.length > 0 ? options.signatories : [""];
+  const lineWidth = 180;
+  let signatureY = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 60;
+  let x = margin;
+  doc.setFontSize(9);
+  for (const name of signatories) {
+    if (x + lineWidth > pageWidth - margin) {
+      x = margin;
+      signatureY += 60;
+    }
+    if (signatureY > pageHeight - 50) {
+      doc.addPage();
+      signatureY = margin + 40;
+    }
+    doc.line(x, signatureY, x + lineWidth, signatureY);
+    doc.text(name ? `Verified by ${name}` : "Verified by", x, signatureY + 12);
+    x += lineWidth + 40;
+  }
+
+  doc.save(fileName);
+}
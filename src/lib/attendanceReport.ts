@@ -0,0 +1,63 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type AttendanceReportRow = Database["public"]["Functions"]["attendance_report"]["Returns"][number];
+
+export type ReportSortKey = Exclude<keyof AttendanceReportRow, "student_id" | "class_id">;
+
+export interface ReportQuery {
+  startDate: string;
+  endDate: string;
+  classId: string | null;
+  /** Periods to include; null counts every period. */
+  periods: number[] | null;
+}
+
+export interface ReportFilter {
+  search: string;
+  /** Only students whose percentage is below this; null shows everyone. */
+  belowPercentage: number | null;
+}
+
+/** Per-student totals for the range, aggregated by public.attendance_report. */
+export async function fetchAttendanceReport({ startDate, endDate, classId, periods }: ReportQuery) {
+  const { data, error } = await supabase.rpc("attendance_report", {
+    p_start: startDate,
+    p_end: endDate,
+    p_class_id: classId,
+    p_periods: periods,
+  });
+  if (error) throw error;
+  return data;
+}
+
+/** Students matching the name or roll number search and the percentage threshold. */
+export function filterReportRows(rows: AttendanceReportRow[], { search, belowPercentage }: ReportFilter) {
+  const term = search.trim().toLowerCase();
+  return rows.filter((row) => {
+    if (term && !row.full_name.toLowerCase().includes(term) && !row.roll_number.toLowerCase().includes(term)) {
+      return false;
+    }
+    return belowPercentage === null || (row.percentage !== null && row.percentage < belowPercentage);
+  });
+}
+
+/**
+ * Sorts a copy of the rows. Roll numbers compare numerically ("2" before "10"), and students
+ * without a percentage always sort last.
+ */
+export function sortReportRows(rows: AttendanceReportRow[], key: ReportSortKey, direction: "asc" | "desc") {
+  const sign = direction === "asc" ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    const left = a[key];
+    const right = b[key];
+    if (left === null || right === null) {
+      if (left === right) return 0;
+      return left === null ? 1 : -1;
+    }
+    if (typeof left === "string" && typeof right === "string") {
+      return sign * left.localeCompare(right, undefined, { numeric: true, sensitivity: "base" });
+    }
+    return sign * ((left as number) - (right as number));
+  });
+}
@@ -0,0 +1,64 @@
+import { Constants, type Enums } from "@/integrations/supabase/types";
+
+export type AttendanceStatus = Enums<"attendance_status">;
+
+export const ATTENDANCE_STATUSES: readonly AttendanceStatus[] = Constants.public.Enums.attendance_status;
+
+export const STATUS_LABELS: Record<AttendanceStatus, string> = {
+  present: "Present",
+  late: "Late",
+  sleepy: "Sleepy",
+  absent: "Absent",
+  excused: "Excused",
+  medical_leave: "Medical leave",
+  on_duty: "On duty",
+};
+
+export const STATUS_BADGE_CLASSES: Record<AttendanceStatus, string> = {
+  present: "bg-accent/10 text-accent border-accent/20",
+  late: "bg-warning/10 text-warning border-warning/20",
+  sleepy: "bg-warning/10 text-warning border-warning/20",
+  absent: "bg-destructive/10 text-destructive border-destructive/20",
+  excused: "bg-primary/10 text-primary border-primary/20",
+  medical_leave: "bg-primary/10 text-primary border-primary/20",
+  on_duty: "bg-accent/10 text-accent border-accent/20",
+};
+
+/** Marks used in the monthly register, as on the paper register. */
+export const STATUS_SYMBOLS: Record<AttendanceStatus, string> = {
+  present: "P",
+  late: "L",
+  sleepy: "S",
+  absent: "A",
+  excused: "E",
+  medical_leave: "ML",
+  on_duty: "OD",
+};
+
+/**
+ * Share of a session each status earns toward attendance percentage. Excused and medical
+ * leave are left out of the percentage altogether (null), so approved absences neither help
+ * nor hurt. Mirrors public.attendance_status_credit.
+ */
+export const STATUS_CREDIT: Record<AttendanceStatus, number | null> = {
+  present: 1,
+  sleepy: 1,
+  on_duty: 1,
+  late: 0.5,
+  absent: 0,
+  excused: null,
+  medical_leave: null,
+};
+
+/** Attendance percentage over a set of sessions, or null when none of them count. */
+export function attendancePercentage(statuses: AttendanceStatus[]): number | null {
+  let earned = 0;
+  let counted = 0;
+  for (const status of statuses) {
+    const credit = STATUS_CREDIT[status];
+    if (credit === null) continue;
+    earned += credit;
+    counted++;
+  }
+  return counted === 0 ? null : (earned / counted) * 100;
+}
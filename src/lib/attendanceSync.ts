@@ -0,0 +1,150 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { TablesInsert } from "@/integrations/supabase/types";
+import {
+  listPendingBatches,
+  putPendingBatch,
+  removePendingBatch,
+  type PendingAttendanceBatch,
+} from "@/lib/offlineStore";
+
+export type AttendanceRecordInsert = TablesInsert<"attendance_records">;
+
+// A batch the server keeps rejecting is given up on after this many attempts.
+export const MAX_SYNC_ATTEMPTS = 5;
+
+// Postgres error classes retrying can't fix: bad data (22), constraint violations (23),
+// permission and policy violations (42) and exceptions raised by our own functions (P0).
+const PERMANENT_ERROR_CODE = /^(22|23|42|P0)/;
+
+/** True when a request failed because the server could not be reached, not because it refused. */
+export function isNetworkError(error: { message: string } | null | undefined) {
+  if (!navigator.onLine) return true;
+  return !!error && /failed to fetch|networkerror|load failed|network request failed/i.test(error.message);
+}
+
+/** Stores a batch on this device until it can be sent. */
+export async function queueAttendanceBatch(
+  userId: string,
+  date: string,
+  period: number,
+  records: AttendanceRecordInsert[],
+  edits: AttendanceRecordInsert[] = []
+) {
+  await putPendingBatch({
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    userId,
+    date,
+    period,
+    records,
+    edits,
+    attempts: 0,
+  });
+}
+
+/**
+ * Writes new rows and edits for one period. New rows may already exist on the server (a retry
+ * after a lost response, or another teacher saving the same period first); existing rows are
+ * kept, so a resend never duplicates or overwrites attendance. Edits overwrite the saved status.
+ */
+export async function sendAttendance({
+  records,
+  edits = [],
+}: Pick<PendingAttendanceBatch, "records" | "edits">) {
+  if (records.length > 0) {
+    const { error } = await supabase
+      .from("attendance_records")
+      .upsert(records, { onConflict: "student_id,date,period", ignoreDuplicates: true });
+    if (error) return { error };
+  }
+  if (edits.length > 0) {
+    const { error } = await supabase
+      .from("attendance_records")
+      .upsert(edits, { onConflict: "student_id,date,period" });
+    if (error) return { error };
+  }
+  return { error: null };
+}
+
+/** True when the server refused a request in a way that will not change on a later attempt. */
+export function isPermanentError(error: { code?: string }) {
+  return !!error.code && PERMANENT_ERROR_CODE.test(error.code);
+}
+
+/**
+ * The batch after the server rejected it: kept for another attempt, or marked failed once the
+ * error is permanent or it has run out of attempts.
+ */
+export function rejectedBatch(
+  batch: PendingAttendanceBatch,
+  error: { message: string; code?: string }
+): PendingAttendanceBatch {
+  const attempts = batch.attempts + 1;
+  return {
+    ...batch,
+    attempts,
+    lastError: error.message,
+    failed: isPermanentError(error) || attempts >= MAX_SYNC_ATTEMPTS,
+  };
+}
+
+/**
+ * A failed batch resent as edits, so its rows overwrite whatever the server saved for those
+ * students in the meantime instead of being skipped.
+ */
+export function batchAsEdits(batch: PendingAttendanceBatch, userId: string, now = new Date()): PendingAttendanceBatch {
+  const editedAt = now.toISOString();
+  return {
+    ...batch,
+    records: [],
+    edits: [
+      ...batch.records.map((r) => ({ ...r, updated_by: userId, updated_at: editedAt })),
+      ...(batch.edits ?? []),
+    ],
+    attempts: 0,
+    lastError: undefined,
+    failed: false,
+  };
+}
+
+/** Sends a failed batch again as edits. It is removed once delivered and stays failed otherwise. */
+export async function retryBatchAsEdits(batch: PendingAttendanceBatch, userId: string) {
+  const retry = batchAsEdits(batch, userId);
+  const { error } = await sendAttendance(retry);
+  if (error) {
+    await putPendingBatch({ ...retry, attempts: 1, lastError: error.message, failed: true });
+    return { error };
+  }
+  await removePendingBatch(batch.id);
+  return { error: null };
+}
+
+let syncing: Promise<number> | null = null;
+
+/**
+ * Sends queued batches oldest first and returns how many were delivered. Stops at the first
+ * network failure. Batches the server rejects are retried on later syncs until they fail for
+ * good, then skipped until the user retries or discards them.
+ */
+export function syncPendingAttendance(userId: string): Promise<number> {
+  if (!syncing) {
+    syncing = (async () => {
+      let delivered = 0;
+      for (const batch of await listPendingBatches()) {
+        if (batch.userId !== userId || batch.failed) continue;
+        const { error } = await sendAttendance(batch);
+        if (!error) {
+          await removePendingBatch(batch.id);
+          delivered++;
+          continue;
+        }
+        if (isNetworkError(error)) break;
+        await putPendingBatch(rejectedBatch(batch, error));
+      }
+      return delivered;
+    })().finally(() => {
+      syncing = null;
+    });
+  }
+  return syncing;
+}
@@ -0,0 +1,29 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type SchoolClass = Tables<"classes">;
+
+/** "Grade 5-B", or just "Grade 5" for a class without sections. */
+export const classLabel = (c: Pick<SchoolClass, "grade" | "section">) =>
+  `Grade ${c.grade}${c.section ? `-${c.section}` : ""}`;
+
+/**
+ * Academic year such as "2026-27" for the given date. Years run June to May, so
+ * anything before June belongs to the year that started the previous summer.
+ */
+export function currentAcademicYear(now = new Date()) {
+  const start = now.getMonth() >= 5 ? now.getFullYear() : now.getFullYear() - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, "0")}`;
+}
+
+/** The school's classes, newest academic year first, then by grade and section. */
+export async function fetchClasses(): Promise<SchoolClass[]> {
+  const { data, error } = await supabase.from("classes").select("*").order("academic_year", { ascending: false });
+  if (error) throw error;
+  return data.sort(
+    (a, b) =>
+      b.academic_year.localeCompare(a.academic_year) ||
+      a.grade.localeCompare(b.grade, undefined, { numeric: true }) ||
+      a.section.localeCompare(b.section)
+  );
+}
@@ -0,0 +1,91 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import type { AttendanceStatus } from "@/lib/attendanceStatus";
+
+type PeriodStatusCount = Database["public"]["Functions"]["period_status_counts"]["Returns"][number];
+type DailyRate = Database["public"]["Functions"]["daily_attendance_rates"]["Returns"][number];
+
+export type ClassRate = Database["public"]["Functions"]["class_attendance_rates"]["Returns"][number];
+
+/** Statuses combined into the series of the by-period chart. */
+export const PERIOD_SPLIT_GROUPS = {
+  present: ["present", "on_duty"],
+  late: ["late"],
+  sleepy: ["sleepy"],
+  absent: ["absent"],
+  excused: ["excused", "medical_leave"],
+} satisfies Record<string, AttendanceStatus[]>;
+
+export type PeriodSplitGroup = keyof typeof PERIOD_SPLIT_GROUPS;
+
+export type PeriodSplit = { period: number } & Record<PeriodSplitGroup, number>;
+
+export interface DailyRatePoint {
+  date: string;
+  sessions: number;
+  // Null on days without attendance, so the line breaks over weekends and holidays
+  percentage: number | null;
+}
+
+const addDays = (date: string, days: number) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().split("T")[0];
+};
+
+/** The `count` YYYY-MM-DD dates ending on `end`, oldest first. */
+export function lastDays(end: string, count: number): string[] {
+  return Array.from({ length: count }, (_, i) => addDays(end, i - count + 1));
+}
+
+/** Monday of the week containing the date. */
+export function weekStart(date: string) {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return addDays(date, -((weekday + 6) % 7));
+}
+
+/** One point per day, including days nothing was recorded. */
+export function fillDailyRates(days: string[], rates: DailyRate[]): DailyRatePoint[] {
+  const byDate = new Map(rates.map((r) => [r.date, r]));
+  return days.map((date) => ({
+    date,
+    sessions: byDate.get(date)?.sessions ?? 0,
+    percentage: byDate.get(date)?.percentage ?? null,
+  }));
+}
+
+/** Status counts pivoted into one row per period. */
+export function splitByPeriod(counts: PeriodStatusCount[]): PeriodSplit[] {
+  const rows = new Map<number, PeriodSplit>();
+  for (const { period, status, sessions } of counts) {
+    const row = rows.get(period) ?? { period, present: 0, late: 0, sleepy: 0, absent: 0, excused: 0 };
+    const group = (Object.keys(PERIOD_SPLIT_GROUPS) as PeriodSplitGroup[]).find((g) =>
+      (PERIOD_SPLIT_GROUPS[g] as AttendanceStatus[]).includes(status)
+    );
+    if (group) row[group] += sessions;
+    rows.set(period, row);
+  }
+  return [...rows.values()].sort((a, b) => a.period - b.period);
+}
+
+export async function fetchDailyRates(days: string[]): Promise<DailyRatePoint[]> {
+  const { data, error } = await supabase.rpc("daily_attendance_rates", {
+    p_start: days[0],
+    p_end: days[days.length - 1],
+  });
+  if (error) throw error;
+  return fillDailyRates(days, data);
+}
+
+export async function fetchPeriodSplit(start: string, end: string): Promise<PeriodSplit[]> {
+  const { data, error } = await supabase.rpc("period_status_counts", { p_start: start, p_end: end });
+  if (error) throw error;
+  return splitByPeriod(data);
+}
+
+/** Classes by attendance percentage, lowest first. */
+export async function fetchClassRates(start: string, end: string): Promise<ClassRate[]> {
+  const { data, error } = await supabase.rpc("class_attendance_rates", { p_start: start, p_end: end });
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,120 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** The subset of face-api.js `FaceLandmarks68` used for drowsiness measurements. */
+export interface EyeLandmarks {
+  getLeftEye(): Point[];
+  getRightEye(): Point[];
+  getNose(): Point[];
+  getJawOutline(): Point[];
+}
+
+export interface DrowsinessSample {
+  eyeAspectRatio: number;
+  headDroop: number;
+}
+
+export interface DrowsinessThresholds {
+  eyeAspectRatio: number;
+  headDroopRatio: number;
+  durationMs: number;
+}
+
+// Share of samples in the window that must look drowsy, so single noisy frames don't reset it.
+const DROWSY_SAMPLE_RATIO = 0.8;
+// Fewer samples than this cannot tell a long closure from a blink.
+const MIN_SAMPLES = 3;
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Eye aspect ratio (Soukupová & Čech) over the six landmarks of one eye.
+ * Open eyes sit around 0.25–0.35 and the value drops towards 0 as the lids close.
+ */
+export function eyeAspectRatio(eye: Point[]): number {
+  const [p1, p2, p3, p4, p5, p6] = eye;
+  const width = distance(p1, p4);
+  if (width === 0) return 0;
+  return (distance(p2, p6) + distance(p3, p5)) / (2 * width);
+}
+
+/**
+ * How far the nose tip sits between the eye line and the chin (0 = at the eyes, 1 = at the chin).
+ * The ratio grows as the head tips forward.
+ */
+export function headDroopRatio(landmarks: EyeLandmarks): number {
+  const eyes = [...landmarks.getLeftEye(), ...landmarks.getRightEye()];
+  const eyeLineY = eyes.reduce((sum, p) => sum + p.y, 0) / eyes.length;
+  const noseTip = landmarks.getNose()[3];
+  const chin = landmarks.getJawOutline()[8];
+  const faceHeight = chin.y - eyeLineY;
+  if (faceHeight <= 0) return 0;
+  return (noseTip.y - eyeLineY) / faceHeight;
+}
+
+export function measureDrowsiness(landmarks: EyeLandmarks): DrowsinessSample {
+  return {
+    eyeAspectRatio: (eyeAspectRatio(landmarks.getLeftEye()) + eyeAspectRatio(landmarks.getRightEye())) / 2,
+    headDroop: headDroopRatio(landmarks),
+  };
+}
+
+interface TimedSample extends DrowsinessSample {
+  at: number;
+}
+
+/**
+ * Keeps a rolling window of samples per student and reports when a student's eyes have stayed
+ * closed, or their head drooped, for the configured duration. A student is reported once and
+ * can be reported again only after they have looked awake.
+ */
+export class DrowsinessTracker {
+  private samples = new Map<string, TimedSample[]>();
+  private flagged = new Set<string>();
+
+  constructor(private thresholds: DrowsinessThresholds) {}
+
+  setThresholds(thresholds: DrowsinessThresholds) {
+    this.thresholds = thresholds;
+  }
+
+  /** Records a sample and returns true when the student has just become drowsy. */
+  update(studentId: string, sample: DrowsinessSample, now: number): boolean {
+    const { durationMs } = this.thresholds;
+    const window = (this.samples.get(studentId) ?? []).filter((s) => now - s.at <= durationMs);
+    window.push({ ...sample, at: now });
+    this.samples.set(studentId, window);
+
+    const drowsy = this.isDrowsy(window, now);
+    if (!drowsy) {
+      if (!this.isDrowsySample(sample)) this.flagged.delete(studentId);
+      return false;
+    }
+    if (this.flagged.has(studentId)) return false;
+    this.flagged.add(studentId);
+    return true;
+  }
+
+  reset() {
+    this.samples.clear();
+    this.flagged.clear();
+  }
+
+  private isDrowsySample(sample: DrowsinessSample) {
+    return (
+      sample.eyeAspectRatio < this.thresholds.eyeAspectRatio ||
+      sample.headDroop > this.thresholds.headDroopRatio
+    );
+  }
+
+  private isDrowsy(window: TimedSample[], now: number) {
+    if (window.length < MIN_SAMPLES) return false;
+    // The window must actually cover most of the duration, not just a burst of frames
+    const covered = now - window[0].at;
+    if (covered < this.thresholds.durationMs * DROWSY_SAMPLE_RATIO) return false;
+    const drowsy = window.filter((s) => this.isDrowsySample(s)).length;
+    return drowsy / window.length >= DROWSY_SAMPLE_RATIO;
+  }
+}
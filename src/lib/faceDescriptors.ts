@@ -0,0 +1,124 @@
+import type { FaceMatcher } from "face-api.js";
+import { supabase } from "@/integrations/supabase/client";
+import { describeImage, loadFaceApi, MATCH_THRESHOLD } from "@/lib/faceRecognition";
+
+// Stored descriptors are only comparable when produced by the same recognition model.
+export const FACE_MODEL_VERSION = "face-api.js@0.22.2/face_recognition_model";
+
+export interface EnrolledStudent {
+  id: string;
+  photo_url: string | null;
+}
+
+export type EnrollmentResult = "enrolled" | "no_face" | "unavailable";
+
+// Per school: the matcher, and the students whose legacy photos it has checked for backfilling
+const matcherCache = new Map<string, { matcher: Promise<FaceMatcher | null>; checked: Set<string> }>();
+
+export interface EnrollmentPhoto {
+  id: string;
+  student_id: string;
+  principal_id: string;
+  photo_url: string;
+}
+
+/** Embeds an enrollment photo and stores the descriptor against that photo. */
+export async function enrollFaceDescriptor(photo: EnrollmentPhoto, image: Blob): Promise<EnrollmentResult> {
+  let descriptor: Float32Array | null;
+  try {
+    const faceapi = await loadFaceApi();
+    const element = await faceapi.bufferToImage(image);
+    descriptor = await describeImage(faceapi, element);
+  } catch {
+    return "unavailable";
+  }
+  if (!descriptor) return "no_face";
+
+  const { error } = await supabase.from("student_face_descriptors").insert({
+    student_id: photo.student_id,
+    principal_id: photo.principal_id,
+    student_photo_id: photo.id,
+    descriptor: Array.from(descriptor),
+    model_version: FACE_MODEL_VERSION,
+    source_image: photo.photo_url,
+  });
+  if (error) return "unavailable";
+
+  invalidateStudentMatcher(photo.principal_id);
+  return "enrolled";
+}
+
+/** Drops the cached matcher so the next live session picks up enrollment changes. */
+export function invalidateStudentMatcher(principalId: string) {
+  matcherCache.delete(principalId);
+}
+
+/**
+ * Returns one matcher for the whole school, built from stored descriptors in a single query.
+ * Every descriptor of a student (one per gallery photo) is used for matching. Students who
+ * only have a legacy `photo_url` are embedded once and backfilled into the store.
+ * The matcher is cached per school until a new descriptor is enrolled, or until it is asked
+ * for a roster with legacy photos it hasn't checked yet.
+ */
+export function loadStudentMatcher(
+  principalId: string,
+  students: EnrolledStudent[]
+): Promise<FaceMatcher | null> {
+  const cached = matcherCache.get(principalId);
+  if (cached && students.every((s) => !s.photo_url || cached.checked.has(s.id))) return cached.matcher;
+
+  const matcher = buildStudentMatcher(principalId, students);
+  const entry = { matcher, checked: new Set([...(cached?.checked ?? []), ...students.map((s) => s.id)]) };
+  matcher.catch(() => {
+    if (matcherCache.get(principalId) === entry) matcherCache.delete(principalId);
+  });
+  matcherCache.set(principalId, entry);
+  return matcher;
+}
+
+async function buildStudentMatcher(
+  principalId: string,
+  students: EnrolledStudent[]
+): Promise<FaceMatcher | null> {
+  const faceapi = await loadFaceApi();
+
+  const { data, error } = await supabase
+    .from("student_face_descriptors")
+    .select("student_id, descriptor")
+    .eq("principal_id", principalId)
+    .eq("model_version", FACE_MODEL_VERSION);
+  if (error) throw error;
+
+  const byStudent = new Map<string, Float32Array[]>();
+  for (const row of data) {
+    const list = byStudent.get(row.student_id) ?? [];
+    list.push(new Float32Array(row.descriptor));
+    byStudent.set(row.student_id, list);
+  }
+
+  const missing = students.filter((s) => s.photo_url && !byStudent.has(s.id));
+  for (const student of missing) {
+    try {
+      const image = await faceapi.fetchImage(student.photo_url);
+      const descriptor = await describeImage(faceapi, image);
+      if (!descriptor) continue;
+      byStudent.set(student.id, [descriptor]);
+      await supabase.from("student_face_descriptors").insert({
+        student_id: student.id,
+        principal_id: principalId,
+        descriptor: Array.from(descriptor),
+        model_version: FACE_MODEL_VERSION,
+        source_image: student.photo_url,
+      });
+    } catch {
+      console.log(`Could not embed photo for student ${student.id}`);
+    }
+  }
+
+  if (byStudent.size === 0) return null;
+  const labeled = Array.from(
+    byStudent,
+    ([studentId, descriptors]) => new faceapi.LabeledFaceDescriptors(studentId, descriptors)
+  );
+  return new faceapi.FaceMatcher(labeled, MATCH_THRESHOLD);
+}
@@ -0,0 +1,126 @@
+import { detectFaces, loadFaceApi } from "@/lib/faceRecognition";
+import {
+  toDetectedFace,
+  type DetectedFace,
+  type FaceDetectionRequest,
+  type FaceDetectionResponse,
+} from "@/lib/faceDetectionProtocol";
+
+export interface FaceDetector {
+  // Where detection runs; the main thread is only used when the worker can't start
+  mode: "worker" | "main_thread";
+  detect(video: HTMLVideoElement): Promise<DetectedFace[]>;
+  dispose(): void;
+}
+
+export function supportsWorkerDetection() {
+  return typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined" && typeof createImageBitmap !== "undefined";
+}
+
+/**
+ * Starts the detection worker and resolves once it has loaded the models. If the worker dies
+ * after that, pending and later detections reject and `onCrash` is called once.
+ */
+function createWorkerDetector(onCrash: (error: Error) => void): Promise<FaceDetector> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("../workers/faceDetection.worker.ts", import.meta.url), { type: "module" });
+    const pending = new Map<number, { resolve: (faces: DetectedFace[]) => void; reject: (error: Error) => void }>();
+    let nextId = 0;
+    let ready = false;
+    let crash: Error | null = null;
+
+    const failAll = (error: Error) => {
+      for (const request of pending.values()) request.reject(error);
+      pending.clear();
+    };
+
+    const detector: FaceDetector = {
+      mode: "worker",
+      async detect(video) {
+        if (crash) throw crash;
+        const frame = await createImageBitmap(video);
+        const id = nextId++;
+        return new Promise<DetectedFace[]>((resolveDetect, rejectDetect) => {
+          pending.set(id, { resolve: resolveDetect, reject: rejectDetect });
+          const request: FaceDetectionRequest = { type: "detect", id, frame };
+          worker.postMessage(request, [frame]);
+        });
+      },
+      dispose() {
+        worker.terminate();
+        failAll(new Error("Face detection stopped"));
+      },
+    };
+
+    worker.onmessage = (event: MessageEvent<FaceDetectionResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case "ready":
+          ready = true;
+          resolve(detector);
+          break;
+        case "load_failed":
+          worker.terminate();
+          reject(new Error(message.message));
+          break;
+        case "detected":
+          pending.get(message.id)?.resolve(message.faces);
+          pending.delete(message.id);
+          break;
+        case "detect_failed":
+          pending.get(message.id)?.reject(new Error(message.message));
+          pending.delete(message.id);
+          break;
+      }
+    };
+    worker.onerror = (event) => {
+      const error = new Error(event.message || "Face detection worker failed");
+      worker.terminate();
+      crash = error;
+      failAll(error);
+      if (ready) onCrash(error);
+      else reject(error);
+    };
+  });
+}
+
+async function createMainThreadDetector(): Promise<FaceDetector> {
+  const faceapi = await loadFaceApi();
+  return {
+    mode: "main_thread",
+    detect: async (video) => (await detectFaces(faceapi, video)).map(toDetectedFace),
+    dispose: () => undefined,
+  };
+}
+
+/**
+ * Starts face detection in a worker, falling back to the main thread on browsers that can't
+ * run face-api.js in one. Rejects when the models in /public/models can't be loaded.
+ *
+ * A worker that crashes later is replaced by main-thread detection too: the detections in
+ * flight reject, the following ones run on the main thread, and `onFallback` is told why.
+ */
+export async function createFaceDetector(onFallback?: (error: Error) => void): Promise<FaceDetector> {
+  if (!supportsWorkerDetection()) return createMainThreadDetector();
+
+  let fallback: Promise<FaceDetector> | null = null;
+  let worker: FaceDetector;
+  try {
+    worker = await createWorkerDetector((error) => {
+      console.log("Face detection worker crashed, detecting on the main thread", error);
+      fallback = createMainThreadDetector();
+      fallback.then(() => onFallback?.(error)).catch(() => undefined);
+    });
+  } catch (err) {
+    console.log("Face detection worker unavailable, detecting on the main thread", err);
+    return createMainThreadDetector();
+  }
+
+  return {
+    get mode() {
+      return fallback ? "main_thread" : worker.mode;
+    },
+    detect: async (video) => (fallback ? (await fallback).detect(video) : worker.detect(video)),
+    dispose: () => worker.dispose(),
+  };
+}
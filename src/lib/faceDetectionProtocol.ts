@@ -0,0 +1,52 @@
+import type { Point } from "@/lib/drowsiness";
+import type { FaceShapeLandmarks } from "@/lib/liveness";
+import type { FaceDetectionResult } from "@/lib/faceRecognition";
+
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** One face found in a frame, reduced to plain data so it can cross the worker boundary. */
+export interface DetectedFace {
+  box: FaceBox;
+  score: number;
+  // The 68 landmark positions in frame coordinates
+  landmarks: Point[];
+  descriptor: Float32Array;
+}
+
+// Messages sent to the detection worker. The frame is transferred, so the sender loses it.
+export type FaceDetectionRequest = { type: "detect"; id: number; frame: ImageBitmap };
+
+// Messages sent back by the worker. `ready` or `load_failed` is posted once, after the models load.
+export type FaceDetectionResponse =
+  | { type: "ready" }
+  | { type: "load_failed"; message: string }
+  | { type: "detected"; id: number; faces: DetectedFace[] }
+  | { type: "detect_failed"; id: number; message: string };
+
+export function toDetectedFace(result: FaceDetectionResult): DetectedFace {
+  const { x, y, width, height } = result.detection.box;
+  return {
+    box: { x, y, width, height },
+    score: result.detection.score,
+    landmarks: result.landmarks.positions.map((p) => ({ x: p.x, y: p.y })),
+    descriptor: result.descriptor,
+  };
+}
+
+/** Wraps the 68 landmark positions in the accessors the drowsiness and liveness checks read. */
+export function landmarksFromPoints(points: Point[]): FaceShapeLandmarks {
+  return {
+    getJawOutline: () => points.slice(0, 17),
+    getLeftEyeBrow: () => points.slice(17, 22),
+    getRightEyeBrow: () => points.slice(22, 27),
+    getNose: () => points.slice(27, 36),
+    getLeftEye: () => points.slice(36, 42),
+    getRightEye: () => points.slice(42, 48),
+    getMouth: () => points.slice(48, 68),
+  };
+}
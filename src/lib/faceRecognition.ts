@@ -0,0 +1,127 @@
+import type * as FaceApi from "face-api.js";
+
+export type FaceApiModule = typeof FaceApi;
+
+export type FaceDetectionResult = FaceApi.WithFaceDescriptor<
+  FaceApi.WithFaceLandmarks<{ detection: FaceApi.FaceDetection }, FaceApi.FaceLandmarks68>
+>;
+
+export const MODEL_URL = "/models";
+
+// Default Euclidean distance above which a face is treated as "unknown".
+export const MATCH_THRESHOLD = 0.5;
+
+export interface MatchThresholds {
+  threshold: number;
+  // Matches within this distance below the threshold are too close to call automatically
+  reviewMargin: number;
+}
+
+export interface ClassifiedMatch {
+  studentId: string | null;
+  distance: number;
+  confidence: "confident" | "borderline" | "unknown";
+}
+
+// Live frames are analysed at a smaller input size than enrollment photos to keep the loop cheap.
+const LIVE_INPUT_SIZE = 320;
+const ENROLL_INPUT_SIZE = 416;
+
+let faceApiPromise: Promise<FaceApiModule> | null = null;
+
+/**
+ * Imports face-api.js and loads the detector, landmark and recognition models once.
+ * Rejects when the library or the model files in /public/models are unavailable.
+ */
+export function loadFaceApi(): Promise<FaceApiModule> {
+  if (!faceApiPromise) {
+    faceApiPromise = (async () => {
+      const faceapi = await import("face-api.js");
+      await Promise.all([
+        faceapi.nets.tinyFaceDetector.loadFromUri(MODEL_URL),
+        faceapi.nets.faceLandmark68Net.loadFromUri(MODEL_URL),
+        faceapi.nets.faceRecognitionNet.loadFromUri(MODEL_URL),
+      ]);
+      return faceapi;
+    })();
+    faceApiPromise.catch(() => {
+      faceApiPromise = null;
+    });
+  }
+  return faceApiPromise;
+}
+
+/**
+ * Computes the descriptor of the most prominent face in an enrollment image.
+ * Returns null when no face can be found.
+ */
+export async function describeImage(
+  faceapi: FaceApiModule,
+  image: HTMLImageElement
+): Promise<Float32Array | null> {
+  const options = new faceapi.TinyFaceDetectorOptions({ inputSize: ENROLL_INPUT_SIZE });
+  const result = await faceapi.detectSingleFace(image, options).withFaceLandmarks().withFaceDescriptor();
+  return result ? result.descriptor : null;
+}
+
+/** Detects every face in a live frame along with its landmarks and descriptor. */
+export async function detectFaces(
+  faceapi: FaceApiModule,
+  frame: FaceApi.TNetInput
+): Promise<FaceDetectionResult[]> {
+  const options = new faceapi.TinyFaceDetectorOptions({ inputSize: LIVE_INPUT_SIZE });
+  return faceapi.detectAllFaces(frame, options).withFaceLandmarks().withFaceDescriptors();
+}
+
+/** Finds the closest enrolled student and grades how trustworthy the match is. */
+export function classifyMatch(
+  matcher: FaceApi.FaceMatcher,
+  descriptor: Float32Array,
+  { threshold, reviewMargin }: MatchThresholds
+): ClassifiedMatch {
+  const best = matcher.matchDescriptor(descriptor);
+  if (best.distance >= threshold) {
+    return { studentId: null, distance: best.distance, confidence: "unknown" };
+  }
+  return {
+    studentId: best.label,
+    distance: best.distance,
+    confidence: best.distance >= threshold - reviewMargin ? "borderline" : "confident",
+  };
+}
+
+function drawFaceCrop(
+  video: HTMLVideoElement,
+  box: { x: number; y: number; width: number; height: number },
+  size: number
+): HTMLCanvasElement {
+  const margin = Math.max(box.width, box.height) * 0.25;
+  const side = Math.max(box.width, box.height) + margin * 2;
+  const sx = Math.max(0, box.x + box.width / 2 - side / 2);
+  const sy = Math.max(0, box.y + box.height / 2 - side / 2);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = size;
+  canvas.height = size;
+  canvas.getContext("2d")?.drawImage(video, sx, sy, side, side, 0, 0, size, size);
+  return canvas;
+}
+
+/** Cuts a face out of the current video frame, with some margin, as a JPEG data URL. */
+export function cropFace(
+  video: HTMLVideoElement,
+  box: { x: number; y: number; width: number; height: number },
+  size = 112
+): string {
+  return drawFaceCrop(video, box, size).toDataURL("image/jpeg", 0.85);
+}
+
+/** Same as `cropFace`, but as a JPEG blob suitable for uploading. */
+export function cropFaceBlob(
+  video: HTMLVideoElement,
+  box: { x: number; y: number; width: number; height: number },
+  size = 224
+): Promise<Blob | null> {
+  const canvas = drawFaceCrop(video, box, size);
+  return new Promise((resolve) => canvas.toBlob(resolve, "image/jpeg", 0.9));
+}
@@ -0,0 +1,15 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export type FacultyAssignment = Tables<"faculty_assignments">;
+
+// Indexed like Date.getDay() and Postgres extract(dow): 0 is Sunday.
+export const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+/** Weekday of a YYYY-MM-DD date, independent of the device's time zone. */
+export const weekdayOf = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+/** The slots a faculty member teaches on the given date. */
+export function slotsForDate(assignments: FacultyAssignment[], facultyId: string, date: string) {
+  const weekday = weekdayOf(date);
+  return assignments.filter((a) => a.faculty_id === facultyId && a.weekday === weekday);
+}
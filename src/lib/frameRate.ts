@@ -0,0 +1,48 @@
+export interface FrameRateOptions {
+  minIntervalMs: number;
+  maxIntervalMs: number;
+  // Frame interval as a multiple of the detection latency; 2 leaves the detector idle half the time
+  headroom: number;
+  // Weight of the newest latency sample in the running average
+  smoothing: number;
+}
+
+export const DEFAULT_FRAME_RATE: FrameRateOptions = {
+  minIntervalMs: 150,
+  maxIntervalMs: 2000,
+  headroom: 2,
+  smoothing: 0.3,
+};
+
+/**
+ * Paces frames to how fast the device actually detects: fast machines analyse several frames a
+ * second, slow laptops back off instead of queueing work they can't keep up with.
+ */
+export class AdaptiveFrameRate {
+  private averageLatency: number | null = null;
+
+  constructor(private options: FrameRateOptions = DEFAULT_FRAME_RATE) {}
+
+  /** Time between the starts of two frames for the latency measured so far. */
+  get intervalMs(): number {
+    const { minIntervalMs, maxIntervalMs, headroom } = this.options;
+    if (this.averageLatency === null) return minIntervalMs;
+    return Math.min(maxIntervalMs, Math.max(minIntervalMs, this.averageLatency * headroom));
+  }
+
+  get framesPerSecond(): number {
+    return 1000 / this.intervalMs;
+  }
+
+  /** Records how long a frame took and returns how long to wait before starting the next one. */
+  next(latencyMs: number): number {
+    const { smoothing } = this.options;
+    this.averageLatency =
+      this.averageLatency === null ? latencyMs : this.averageLatency + smoothing * (latencyMs - this.averageLatency);
+    return Math.max(0, this.intervalMs - latencyMs);
+  }
+
+  reset() {
+    this.averageLatency = null;
+  }
+}
@@ -0,0 +1,71 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { AttendanceStatus } from "@/lib/attendanceStatus";
+import { toMinutes, type ClassPeriod } from "@/lib/timetable";
+
+export type KioskDevice = Tables<"kiosk_devices">;
+
+// Students who walk in this long before a period starts are recorded for that period.
+export const KIOSK_EARLY_MINUTES = 10;
+
+/**
+ * Registers a kiosk for the principal's school and returns its one-time pairing code. The
+ * kiosk times arrivals in this browser's time zone, which is taken to be the school's.
+ */
+export async function createKiosk(name: string, classId: string | null, unlockPin: string) {
+  const { data, error } = await supabase.rpc("create_kiosk", {
+    p_name: name,
+    p_class_id: classId,
+    p_unlock_pin: unlockPin,
+    p_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  });
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Pairs this browser as a kiosk: signs in anonymously when nobody is signed in, then claims
+ * the pairing code. A session created here is signed out again if the code is refused.
+ */
+export async function pairKiosk(code: string) {
+  const { data: sessionData } = await supabase.auth.getSession();
+  let signedInHere = false;
+  if (!sessionData.session) {
+    const { error } = await supabase.auth.signInAnonymously();
+    if (error) throw error;
+    signedInHere = true;
+  }
+
+  const { error } = await supabase.rpc("claim_kiosk", { p_code: code });
+  if (error) {
+    if (signedInHere) await supabase.auth.signOut();
+    throw error;
+  }
+}
+
+export async function verifyKioskPin(pin: string) {
+  const { data, error } = await supabase.rpc("verify_kiosk_pin", { p_pin: pin });
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Late once the period has been running for longer than the school allows. The server decides
+ * the recorded status the same way; this is only used to greet students without waiting.
+ */
+export function arrivalStatus(slot: ClassPeriod, now: Date, lateAfterMinutes: number): AttendanceStatus {
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  return minutes > toMinutes(slot.start_time) + lateAfterMinutes ? "late" : "present";
+}
+
+/**
+ * Records a student arriving now. The server picks the date, period and status from its own
+ * clock and the timetable; `recorded` is false when the student was already marked for the
+ * period and nothing changed.
+ */
+export async function recordKioskArrival(studentId: string) {
+  const { data, error } = await supabase.rpc("record_kiosk_arrival", { p_student_id: studentId });
+  if (error) throw error;
+  if (!data[0]) throw new Error("The arrival was not recorded");
+  return data[0];
+}
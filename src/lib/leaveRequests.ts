@@ -0,0 +1,67 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type LeaveRequest = Tables<"leave_requests">;
+
+const BUCKET = "leave_attachments";
+
+interface LeaveRequestInput {
+  principalId: string;
+  requestedBy: string;
+  studentId: string;
+  startDate: string;
+  endDate: string;
+  reason: string;
+}
+
+/** Records a pending leave request, uploading the parent's note or certificate first if given. */
+export async function submitLeaveRequest(input: LeaveRequestInput, attachment?: File | null) {
+  let attachmentPath: string | null = null;
+  if (attachment) {
+    const ext = attachment.name.split(".").pop() || "bin";
+    attachmentPath = `${input.principalId}/${input.studentId}/${crypto.randomUUID()}.${ext}`;
+    const { error: uploadError } = await supabase.storage
+      .from(BUCKET)
+      .upload(attachmentPath, attachment, { contentType: attachment.type || undefined });
+    if (uploadError) throw uploadError;
+  }
+
+  const { error } = await supabase.from("leave_requests").insert({
+    principal_id: input.principalId,
+    requested_by: input.requestedBy,
+    student_id: input.studentId,
+    start_date: input.startDate,
+    end_date: input.endDate,
+    reason: input.reason,
+    attachment_path: attachmentPath,
+  });
+  if (error) throw error;
+}
+
+/** Short-lived URL for opening an attachment from the private bucket. */
+export async function leaveAttachmentUrl(path: string) {
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUrl(path, 60 * 10);
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+export async function reviewLeaveRequest(id: string, decision: "approved" | "rejected", reviewerId: string) {
+  const { error } = await supabase
+    .from("leave_requests")
+    .update({ status: decision, reviewed_by: reviewerId, reviewed_at: new Date().toISOString() })
+    .eq("id", id);
+  if (error) throw error;
+}
+
+/** Students with approved leave covering the date, among the given ones. */
+export async function fetchStudentsOnLeave(date: string, studentIds: string[]): Promise<Set<string>> {
+  if (studentIds.length === 0) return new Set();
+  const { data } = await supabase
+    .from("leave_requests")
+    .select("student_id")
+    .eq("status", "approved")
+    .lte("start_date", date)
+    .gte("end_date", date)
+    .in("student_id", studentIds);
+  return new Set((data || []).map((r) => r.student_id));
+}
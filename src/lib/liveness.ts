@@ -0,0 +1,143 @@
+import { eyeAspectRatio, type EyeLandmarks, type Point } from "@/lib/drowsiness";
+
+export type LivenessMode = "off" | "blink" | "movement" | "blink_or_movement";
+
+export type LivenessOutcome = "pending" | "live" | "needs_review";
+
+/** The subset of face-api.js `FaceLandmarks68` used for liveness measurements. */
+export interface FaceShapeLandmarks extends EyeLandmarks {
+  getMouth(): Point[];
+  getLeftEyeBrow(): Point[];
+  getRightEyeBrow(): Point[];
+}
+
+export interface LivenessOptions {
+  mode: LivenessMode;
+  timeoutMs: number;
+}
+
+// A blink is a closed-eye frame between two open-eye frames. Both are judged against the face's
+// usual eye aspect ratio, so eyes that are narrow to begin with don't count as closed.
+const BLINK_CLOSED_FRACTION = 0.55;
+const BLINK_OPEN_FRACTION = 0.8;
+// Standard deviation of each shape feature above which a face is considered to move naturally.
+// Calibrated against a still face with the tiny landmark model's frame-to-frame jitter (about 2%
+// of the distance between the eyes), where these sit above the worst 0.1% of windows. The eye
+// ratios jitter too much to tell movement apart and are only used for blinks.
+const MOVEMENT_THRESHOLDS = [Infinity, Infinity, 0.055, 0.04, 0.04, 0.18];
+const MOVEMENT_WINDOW = 10;
+const MIN_MOVEMENT_SAMPLES = 5;
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+const centroid = (points: Point[]): Point => ({
+  x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+  y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+});
+
+/**
+ * Ratios between facial features that stay fixed when a flat photo is moved, scaled or rotated
+ * in front of the camera, but change as a real face talks, blinks or turns.
+ */
+export function shapeFeatures(landmarks: FaceShapeLandmarks): number[] {
+  const leftEye = landmarks.getLeftEye();
+  const rightEye = landmarks.getRightEye();
+  const leftCenter = centroid(leftEye);
+  const rightCenter = centroid(rightEye);
+  const interocular = distance(leftCenter, rightCenter) || 1;
+
+  const mouth = landmarks.getMouth();
+  const noseTip = landmarks.getNose()[3];
+  const jaw = landmarks.getJawOutline();
+
+  return [
+    eyeAspectRatio(leftEye),
+    eyeAspectRatio(rightEye),
+    distance(mouth[14], mouth[18]) / interocular,
+    distance(centroid(landmarks.getLeftEyeBrow()), leftCenter) / interocular,
+    distance(centroid(landmarks.getRightEyeBrow()), rightCenter) / interocular,
+    distance(noseTip, jaw[0]) / (distance(noseTip, jaw[16]) || 1),
+  ];
+}
+
+const standardDeviation = (values: number[]) => {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const meanEyeRatio = (features: number[]) => (features[0] + features[1]) / 2;
+
+interface LivenessState {
+  firstSeen: number;
+  eyesWereOpen: boolean;
+  eyesClosed: boolean;
+  blinked: boolean;
+  features: number[][];
+  outcome: LivenessOutcome;
+}
+
+/**
+ * Decides per student whether a recognised face belongs to a live person. A face passes once
+ * it blinks and/or moves naturally, depending on the mode; if it has not passed within the
+ * timeout it is marked `needs_review`, but it can still pass later.
+ */
+export class LivenessTracker {
+  private states = new Map<string, LivenessState>();
+
+  constructor(private options: LivenessOptions) {}
+
+  setOptions(options: LivenessOptions) {
+    this.options = options;
+  }
+
+  update(studentId: string, landmarks: FaceShapeLandmarks, now: number): LivenessOutcome {
+    if (this.options.mode === "off") return "live";
+
+    const state = this.states.get(studentId) ?? {
+      firstSeen: now,
+      eyesWereOpen: false,
+      eyesClosed: false,
+      blinked: false,
+      features: [],
+      outcome: "pending" as const,
+    };
+    this.states.set(studentId, state);
+    if (state.outcome === "live") return "live";
+
+    const features = shapeFeatures(landmarks);
+    const ear = meanEyeRatio(features);
+    // Usual eye opening, from the frames before this one; a closed frame barely moves the median
+    const openEar = state.features.length > 0 ? median(state.features.map(meanEyeRatio)) : ear;
+    if (ear > openEar * BLINK_OPEN_FRACTION) {
+      if (state.eyesWereOpen && state.eyesClosed) state.blinked = true;
+      state.eyesWereOpen = true;
+      state.eyesClosed = false;
+    } else if (ear < openEar * BLINK_CLOSED_FRACTION && state.eyesWereOpen) {
+      state.eyesClosed = true;
+    }
+
+    state.features = [...state.features, features].slice(-MOVEMENT_WINDOW);
+    const moved =
+      state.features.length >= MIN_MOVEMENT_SAMPLES &&
+      features.some((_, i) => standardDeviation(state.features.map((f) => f[i])) > MOVEMENT_THRESHOLDS[i]);
+
+    const { mode, timeoutMs } = this.options;
+    const live =
+      (mode === "blink" && state.blinked) ||
+      (mode === "movement" && moved) ||
+      (mode === "blink_or_movement" && (state.blinked || moved));
+
+    if (live) state.outcome = "live";
+    else if (now - state.firstSeen >= timeoutMs) state.outcome = "needs_review";
+    return state.outcome;
+  }
+
+  reset() {
+    this.states.clear();
+  }
+}
@@ -0,0 +1,118 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { STATUS_CREDIT, STATUS_SYMBOLS, attendancePercentage, type AttendanceStatus } from "@/lib/attendanceStatus";
+
+export type RegisterRecord = Pick<
+  Tables<"attendance_records">,
+  "id" | "student_id" | "date" | "period" | "status" | "arrived_at"
+>;
+
+export interface RegisterTotals {
+  present: number;
+  absent: number;
+  percentage: number | null;
+}
+
+// PostgREST returns at most this many rows per request by default.
+const PAGE_SIZE = 1000;
+
+/** Every YYYY-MM-DD date of a YYYY-MM month. */
+export function monthDays(month: string): string[] {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const count = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  return Array.from({ length: count }, (_, i) => `${month}-${String(i + 1).padStart(2, "0")}`);
+}
+
+export const registerKey = (studentId: string, date: string) => `${studentId}:${date}`;
+
+/** Records grouped by student and day, ordered by period. */
+export function groupRegisterRecords(records: RegisterRecord[]) {
+  const grouped = new Map<string, RegisterRecord[]>();
+  for (const record of records) {
+    const key = registerKey(record.student_id, record.date);
+    grouped.set(key, [...(grouped.get(key) ?? []), record]);
+  }
+  for (const dayRecords of grouped.values()) dayRecords.sort((a, b) => a.period - b.period);
+  return grouped;
+}
+
+/** Whether a session counts as attended; late arrivals do, excused absences don't. */
+export const countsAsPresent = (status: AttendanceStatus) => (STATUS_CREDIT[status] ?? 0) > 0;
+
+/**
+ * Mark for a whole day: the status symbol when every period has the same one, otherwise the
+ * periods attended out of those that count, e.g. "5/6". Null when nothing was marked.
+ */
+export function daySymbol(statuses: AttendanceStatus[]): string | null {
+  if (statuses.length === 0) return null;
+  if (statuses.every((s) => s === statuses[0])) return STATUS_SYMBOLS[statuses[0]];
+  const counted = statuses.filter((s) => STATUS_CREDIT[s] !== null);
+  return `${counted.filter(countsAsPresent).length}/${counted.length}`;
+}
+
+export function registerTotals(statuses: AttendanceStatus[]): RegisterTotals {
+  return {
+    present: statuses.filter(countsAsPresent).length,
+    absent: statuses.filter((s) => s === "absent").length,
+    percentage: attendancePercentage(statuses),
+  };
+}
+
+/** All attendance of the given students in a YYYY-MM month, fetched page by page. */
+export async function fetchMonthRecords(month: string, studentIds: string[]): Promise<RegisterRecord[]> {
+  if (studentIds.length === 0) return [];
+  const days = monthDays(month);
+  const records: RegisterRecord[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("attendance_records")
+      .select("id, student_id, date, period, status, arrived_at")
+      .in("student_id", studentIds)
+      .gte("date", days[0])
+      .lte("date", days[days.length - 1])
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    records.push(...data);
+    if (data.length < PAGE_SIZE) return records;
+  }
+}
+
+interface RegisterCellInput {
+  studentId: string;
+  classId: string | null;
+  date: string;
+  period: number;
+  status: AttendanceStatus;
+  userId: string;
+}
+
+/**
+ * Sets one cell of the register. A saved record is corrected in place, so the edit is logged
+ * against its original marker; an empty cell gets a new record.
+ */
+export async function setRegisterCell(existing: RegisterRecord | undefined, input: RegisterCellInput) {
+  if (existing) {
+    const { error } = await supabase
+      .from("attendance_records")
+      .update({
+        status: input.status,
+        // Arrival times only belong to students who came in
+        arrived_at: input.status === "present" || input.status === "late" ? existing.arrived_at : null,
+        updated_by: input.userId,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", existing.id);
+    if (error) throw error;
+    return;
+  }
+  const { error } = await supabase.from("attendance_records").insert({
+    student_id: input.studentId,
+    date: input.date,
+    period: input.period,
+    status: input.status,
+    verified_by: input.userId,
+    class_id: input.classId,
+  });
+  if (error) throw error;
+}
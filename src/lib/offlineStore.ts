@@ -0,0 +1,90 @@
+import type { TablesInsert } from "@/integrations/supabase/types";
+
+export interface PendingAttendanceBatch {
+  id: string;
+  createdAt: string;
+  userId: string;
+  date: string;
+  period: number;
+  // Rows for students without a saved record when the batch was taken
+  records: TablesInsert<"attendance_records">[];
+  // Deliberate changes to rows that were already saved
+  edits?: TablesInsert<"attendance_records">[];
+  attempts: number;
+  lastError?: string;
+  // Set once the server has refused the batch for good; it then waits for the user to act
+  failed?: boolean;
+}
+
+export interface CachedRoster<T> {
+  key: string;
+  cachedAt: string;
+  students: T[];
+}
+
+// Fired on window whenever the pending queue changes, so badges can refresh their counts.
+export const QUEUE_CHANGED_EVENT = "attendance-queue-changed";
+
+const DB_NAME = "smart-attendance";
+const DB_VERSION = 1;
+const BATCHES = "pending_attendance";
+const ROSTERS = "rosters";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(BATCHES)) db.createObjectStore(BATCHES, { keyPath: "id" });
+        if (!db.objectStoreNames.contains(ROSTERS)) db.createObjectStore(ROSTERS, { keyPath: "key" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(store: string, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = action(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+const notifyQueueChanged = () => window.dispatchEvent(new Event(QUEUE_CHANGED_EVENT));
+
+export async function putPendingBatch(batch: PendingAttendanceBatch) {
+  await run(BATCHES, "readwrite", (s) => s.put(batch));
+  notifyQueueChanged();
+}
+
+export async function removePendingBatch(id: string) {
+  await run(BATCHES, "readwrite", (s) => s.delete(id));
+  notifyQueueChanged();
+}
+
+/** Pending batches, oldest first so they replay in the order they were taken. */
+export async function listPendingBatches(): Promise<PendingAttendanceBatch[]> {
+  const batches = await run<PendingAttendanceBatch[]>(BATCHES, "readonly", (s) => s.getAll());
+  return batches.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function cacheRoster<T>(key: string, students: T[]) {
+  const roster: CachedRoster<T> = { key, cachedAt: new Date().toISOString(), students };
+  await run(ROSTERS, "readwrite", (s) => s.put(roster));
+}
+
+export async function loadCachedRoster<T>(key: string): Promise<CachedRoster<T> | undefined> {
+  return run<CachedRoster<T> | undefined>(ROSTERS, "readonly", (s) => s.get(key));
+}
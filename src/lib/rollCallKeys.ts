@@ -0,0 +1,32 @@
+import type { AttendanceStatus } from "@/lib/attendanceStatus";
+
+// One letter per status for keyboard roll call; P, S and A cover most of a class.
+export const STATUS_KEYS: Record<string, AttendanceStatus> = {
+  p: "present",
+  s: "sleepy",
+  a: "absent",
+  l: "late",
+  e: "excused",
+  m: "medical_leave",
+  d: "on_duty",
+};
+
+// Digits typed within this long of each other are read as one roll number.
+export const ROLL_JUMP_TIMEOUT_MS = 1000;
+
+export function statusForKey(key: string): AttendanceStatus | null {
+  return STATUS_KEYS[key.toLowerCase()] ?? null;
+}
+
+/**
+ * Row to jump to for a typed roll number: an exact match first, otherwise the first roll
+ * number that starts with what was typed so far. Returns -1 when nothing matches.
+ */
+export function findRollIndex(rollNumbers: string[], typed: string): number {
+  const wanted = typed.trim().toLowerCase();
+  if (!wanted) return -1;
+  const normalised = rollNumbers.map((r) => r.trim().toLowerCase());
+  const exact = normalised.indexOf(wanted);
+  if (exact !== -1) return exact;
+  return normalised.findIndex((r) => r.startsWith(wanted));
+}
@@ -0,0 +1,42 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { LivenessMode } from "@/lib/liveness";
+import { MATCH_THRESHOLD } from "@/lib/faceRecognition";
+
+export type SchoolSettings = Omit<Tables<"school_settings">, "principal_id" | "updated_at" | "liveness_mode"> & {
+  liveness_mode: LivenessMode;
+};
+
+// Keep in sync with the column defaults of public.school_settings.
+export const DEFAULT_SCHOOL_SETTINGS: SchoolSettings = {
+  sleepy_eye_aspect_ratio: 0.21,
+  sleepy_head_droop_ratio: 0.65,
+  sleepy_duration_seconds: 4,
+  auto_mark_present: true,
+  liveness_mode: "blink_or_movement",
+  liveness_timeout_seconds: 8,
+  match_threshold: MATCH_THRESHOLD,
+  match_review_margin: 0.08,
+  period_grace_minutes: 15,
+  late_after_minutes: 10,
+  weekly_off_days: [0],
+};
+
+/** Loads a school's settings, falling back to the defaults for anything not stored yet. */
+export async function fetchSchoolSettings(principalId: string): Promise<SchoolSettings> {
+  const { data } = await supabase
+    .from("school_settings")
+    .select("*")
+    .eq("principal_id", principalId)
+    .maybeSingle();
+  if (!data) return DEFAULT_SCHOOL_SETTINGS;
+
+  const { principal_id, updated_at, ...settings } = data;
+  return { ...DEFAULT_SCHOOL_SETTINGS, ...settings, liveness_mode: settings.liveness_mode as LivenessMode };
+}
+
+export async function saveSchoolSettings(principalId: string, settings: SchoolSettings) {
+  return supabase
+    .from("school_settings")
+    .upsert({ principal_id: principalId, ...settings, updated_at: new Date().toISOString() });
+}
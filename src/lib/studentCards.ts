@@ -0,0 +1,44 @@
+import jsQR from "jsqr";
+import QRCode from "qrcode";
+import { supabase } from "@/integrations/supabase/client";
+
+// Version prefix of card payloads; see public.issue_student_cards for the format.
+const PAYLOAD_PREFIX = "BSA1.";
+
+/** Cheap shape check before asking the server to verify a scanned code. */
+export function isCardPayload(text: string) {
+  const parts = text.split(".");
+  return text.startsWith(PAYLOAD_PREFIX) && parts.length === 4 && /^[0-9a-f]{32}$/.test(parts[3]);
+}
+
+/** Signed card payloads for the given students, keyed by student id. */
+export async function issueStudentCards(studentIds: string[]): Promise<Map<string, string>> {
+  if (studentIds.length === 0) return new Map();
+  const { data, error } = await supabase.rpc("issue_student_cards", { p_student_ids: studentIds });
+  if (error) throw error;
+  return new Map(data.map((card) => [card.student_id, card.payload]));
+}
+
+/** Returns the student a card belongs to, or null when it isn't a valid card of this school. */
+export async function verifyStudentCard(payload: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc("verify_student_card", { p_payload: payload });
+  if (error) throw error;
+  return data;
+}
+
+export function cardQrDataUrl(payload: string) {
+  return QRCode.toDataURL(payload, { errorCorrectionLevel: "M", margin: 1, width: 240 });
+}
+
+/** Decodes a QR code visible in the current video frame, drawing it onto the given canvas. */
+export function scanQrCode(video: HTMLVideoElement, canvas: HTMLCanvasElement): string | null {
+  const { videoWidth: width, videoHeight: height } = video;
+  if (!width || !height) return null;
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) return null;
+  context.drawImage(video, 0, 0, width, height);
+  const image = context.getImageData(0, 0, width, height);
+  return jsQR(image.data, width, height, { inversionAttempts: "dontInvert" })?.data ?? null;
+}
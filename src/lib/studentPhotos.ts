@@ -0,0 +1,95 @@
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import type { Tables } from "@/integrations/supabase/types";
+import { enrollFaceDescriptor, invalidateStudentMatcher, type EnrollmentResult } from "@/lib/faceDescriptors";
+
+export type StudentPhoto = Tables<"student_photos">;
+
+const BUCKET = "student_photos";
+
+/**
+ * Uploads a new gallery photo for a student and enrolls it for recognition.
+ * The photo becomes primary when requested or when the student has none yet.
+ */
+export async function addStudentPhoto(
+  studentId: string,
+  principalId: string,
+  file: File,
+  makePrimary = false
+): Promise<{ photo: StudentPhoto; enrollment: EnrollmentResult }> {
+  const ext = file.name.split(".").pop();
+  const path = `${principalId}/${studentId}/${Date.now()}.${ext}`;
+  const { error: uploadError } = await supabase.storage.from(BUCKET).upload(path, file);
+  if (uploadError) throw new Error("Failed to upload photo");
+
+  const { data: urlData } = supabase.storage.from(BUCKET).getPublicUrl(path);
+  const { data: photo, error } = await supabase
+    .from("student_photos")
+    .insert({
+      student_id: studentId,
+      principal_id: principalId,
+      storage_path: path,
+      photo_url: urlData.publicUrl,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+
+  const { count } = await supabase
+    .from("student_photos")
+    .select("id", { count: "exact", head: true })
+    .eq("student_id", studentId)
+    .eq("is_primary", true);
+  if (makePrimary || !count) {
+    await setPrimaryStudentPhoto(photo.id);
+    photo.is_primary = true;
+  }
+
+  const enrollment = await enrollFaceDescriptor(photo, file);
+  return { photo, enrollment };
+}
+
+export async function setPrimaryStudentPhoto(photoId: string) {
+  const { error } = await supabase.rpc("set_primary_student_photo", { p_photo_id: photoId });
+  if (error) throw error;
+}
+
+/**
+ * Deletes a gallery photo together with its descriptors. When the primary photo is removed,
+ * the most recent remaining photo is promoted, or the student is left without a photo.
+ */
+export async function removeStudentPhoto(photo: StudentPhoto) {
+  const { error } = await supabase.from("student_photos").delete().eq("id", photo.id);
+  if (error) throw error;
+
+  await supabase.storage.from(BUCKET).remove([photo.storage_path]);
+  // Descriptors backfilled from the legacy photo_url are not linked to the photo row
+  await supabase
+    .from("student_face_descriptors")
+    .delete()
+    .eq("student_id", photo.student_id)
+    .eq("source_image", photo.photo_url);
+  invalidateStudentMatcher(photo.principal_id);
+
+  if (!photo.is_primary) return;
+  const { data: remaining } = await supabase
+    .from("student_photos")
+    .select("id")
+    .eq("student_id", photo.student_id)
+    .order("created_at", { ascending: false })
+    .limit(1);
+  if (remaining && remaining.length > 0) {
+    await setPrimaryStudentPhoto(remaining[0].id);
+  } else {
+    await supabase.from("students").update({ photo_url: null }).eq("id", photo.student_id);
+  }
+}
+
+/** Tells the user when an uploaded photo could not be used for recognition. */
+export function reportEnrollment(result: EnrollmentResult) {
+  if (result === "no_face") {
+    toast.warning("No face detected in the photo. Upload a clearer photo for facial recognition.");
+  } else if (result === "unavailable") {
+    toast.warning("Photo saved, but it could not be enrolled for facial recognition.");
+  }
+}
@@ -0,0 +1,139 @@
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type TimetableSlot = Pick<
+  Tables<"timetable_periods">,
+  "period" | "label" | "start_time" | "end_time" | "is_optional" | "is_break"
+>;
+
+/** A slot that takes attendance; its number is what attendance_records.period stores. */
+export type ClassPeriod = TimetableSlot & { period: number };
+
+const classSlot = (period: number, start_time: string, end_time: string, is_optional = false): TimetableSlot => ({
+  period,
+  label: `Period ${period}`,
+  start_time,
+  end_time,
+  is_optional,
+  is_break: false,
+});
+
+// The bell schedule the app originally shipped with, used until a school saves its own.
+export const DEFAULT_TIMETABLE: TimetableSlot[] = [
+  classSlot(1, "09:50", "10:50"),
+  classSlot(2, "10:50", "11:50"),
+  classSlot(3, "11:50", "12:50"),
+  classSlot(4, "12:50", "13:30"),
+  classSlot(5, "13:30", "14:30"),
+  classSlot(6, "14:30", "15:30"),
+  classSlot(7, "15:30", "16:30"),
+  classSlot(8, "16:30", "17:30", true),
+];
+
+/** Minutes since midnight for an "HH:MM" time. */
+export function toMinutes(time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/** "13:30" → "1:30", the way bell times are written around school. */
+export function formatTime(time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, "0")}`;
+}
+
+export const formatSlotTimes = (slot: TimetableSlot) => `${formatTime(slot.start_time)} - ${formatTime(slot.end_time)}`;
+
+/** Label for period pickers, e.g. "Period 8 (4:30 - 5:30) - Optional". */
+export const periodOptionLabel = (slot: TimetableSlot) =>
+  `${slot.label} (${formatSlotTimes(slot)})${slot.is_optional ? " - Optional" : ""}`;
+
+export function classPeriods(timetable: TimetableSlot[]): ClassPeriod[] {
+  return timetable.filter((slot): slot is ClassPeriod => !slot.is_break && slot.period !== null);
+}
+
+/** The class period whose bell window contains the given local time, if any. */
+export function findCurrentPeriod(periods: ClassPeriod[], now: Date): ClassPeriod | undefined {
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  return periods.find((p) => toMinutes(p.start_time) <= minutes && minutes < toMinutes(p.end_time));
+}
+
+/**
+ * The period a student walking in now is arriving for: the one running, otherwise one that
+ * starts within `earlyMinutes`, so students who come before the bell count for that period.
+ */
+export function findArrivalPeriod(periods: ClassPeriod[], now: Date, earlyMinutes: number): ClassPeriod | undefined {
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  return (
+    findCurrentPeriod(periods, now) ??
+    periods.find((p) => toMinutes(p.start_time) - earlyMinutes <= minutes && minutes < toMinutes(p.start_time))
+  );
+}
+
+// upcoming: not started yet; open: in progress; grace: ended but still within the grace window;
+// closed: ended longer ago than the grace window
+export type PeriodTiming = "upcoming" | "open" | "grace" | "closed";
+
+/**
+ * Where a period on the given date sits relative to now. Dates are compared as local
+ * YYYY-MM-DD strings, the same format the rest of the app stores them in, so the date
+ * and the period times are both read on the school's clock.
+ */
+export function periodTiming(
+  slot: TimetableSlot,
+  date: string,
+  now: Date,
+  graceMinutes: number
+): PeriodTiming {
+  const today = format(now, "yyyy-MM-dd");
+  if (date < today) return "closed";
+  if (date > today) return "upcoming";
+
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  if (minutes < toMinutes(slot.start_time)) return "upcoming";
+  if (minutes < toMinutes(slot.end_time)) return "open";
+  return minutes <= toMinutes(slot.end_time) + graceMinutes ? "grace" : "closed";
+}
+
+/** Returns the first problem that would stop the timetable from being saved, or null. */
+export function validateTimetable(timetable: TimetableSlot[]): string | null {
+  if (classPeriods(timetable).length === 0) return "Add at least one class period";
+
+  const seen = new Set<number>();
+  for (const slot of timetable) {
+    if (!slot.label.trim()) return "Every period needs a label";
+    const name = slot.label.trim();
+    if (!slot.start_time || !slot.end_time) return `${name} needs a start and end time`;
+    if (toMinutes(slot.end_time) <= toMinutes(slot.start_time)) return `${name} must end after it starts`;
+    if (slot.is_break) continue;
+    if (slot.period === null || slot.period < 1) return `${name} needs a period number`;
+    if (seen.has(slot.period)) return `Period number ${slot.period} is used twice`;
+    seen.add(slot.period);
+  }
+
+  const ordered = [...timetable].sort((a, b) => toMinutes(a.start_time) - toMinutes(b.start_time));
+  for (let i = 1; i < ordered.length; i++) {
+    if (toMinutes(ordered[i].start_time) < toMinutes(ordered[i - 1].end_time)) {
+      return `${ordered[i - 1].label} overlaps ${ordered[i].label}`;
+    }
+  }
+  return null;
+}
+
+/** Loads a school's timetable in bell order, falling back to the default schedule. */
+export async function fetchTimetable(principalId: string): Promise<TimetableSlot[]> {
+  const { data } = await supabase
+    .from("timetable_periods")
+    .select("period, label, start_time, end_time, is_optional, is_break")
+    .eq("principal_id", principalId)
+    .order("start_time");
+  if (!data || data.length === 0) return DEFAULT_TIMETABLE;
+
+  // Postgres returns times as HH:MM:SS
+  return data.map((slot) => ({ ...slot, start_time: slot.start_time.slice(0, 5), end_time: slot.end_time.slice(0, 5) }));
+}
+
+export async function saveTimetable(timetable: TimetableSlot[]) {
+  return supabase.rpc("save_timetable", { p_periods: timetable });
+}
@@ -0,0 +1,87 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { EnrollmentResult } from "@/lib/faceDescriptors";
+import { addStudentPhoto } from "@/lib/studentPhotos";
+
+export type UnknownFace = Tables<"unknown_faces">;
+
+const BUCKET = "unknown_faces";
+
+// Two unknown captures closer than this are treated as the same person.
+export const SAME_UNKNOWN_DISTANCE = 0.45;
+// Low-scoring detections are often not faces at all and aren't worth a log entry.
+export const MIN_CAPTURE_SCORE = 0.7;
+
+interface CaptureContext {
+  principalId: string;
+  facultyId: string;
+  date: string;
+  period: number;
+}
+
+/** Stores the crop of an unmatched face for the principal to review. */
+export async function captureUnknownFace(context: CaptureContext, image: Blob) {
+  const path = `${context.principalId}/${context.date}/${crypto.randomUUID()}.jpg`;
+  const { error: uploadError } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, image, { contentType: "image/jpeg" });
+  if (uploadError) throw uploadError;
+
+  const { error } = await supabase.from("unknown_faces").insert({
+    principal_id: context.principalId,
+    faculty_id: context.facultyId,
+    date: context.date,
+    period: context.period,
+    storage_path: path,
+  });
+  if (error) throw error;
+}
+
+/** Short-lived URLs for displaying crops from the private bucket, keyed by storage path. */
+export async function signedUnknownFaceUrls(faces: UnknownFace[]): Promise<Record<string, string>> {
+  if (faces.length === 0) return {};
+  const { data } = await supabase.storage.from(BUCKET).createSignedUrls(
+    faces.map((f) => f.storage_path),
+    60 * 60
+  );
+  const urls: Record<string, string> = {};
+  for (const item of data || []) {
+    if (item.path && item.signedUrl) urls[item.path] = item.signedUrl;
+  }
+  return urls;
+}
+
+/** Links a crop to a student and adds it to their gallery as an extra enrollment sample. */
+export async function linkUnknownFace(
+  face: UnknownFace,
+  studentId: string,
+  reviewerId: string
+): Promise<EnrollmentResult> {
+  const { data: blob, error: downloadError } = await supabase.storage.from(BUCKET).download(face.storage_path);
+  if (downloadError) throw downloadError;
+
+  const file = new File([blob], `${face.id}.jpg`, { type: "image/jpeg" });
+  const { enrollment } = await addStudentPhoto(studentId, face.principal_id, file);
+
+  const { error } = await supabase
+    .from("unknown_faces")
+    .update({
+      status: "linked",
+      student_id: studentId,
+      reviewed_by: reviewerId,
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq("id", face.id);
+  if (error) throw error;
+  return enrollment;
+}
+
+/** Dismisses a crop and deletes the image; the log entry is kept. */
+export async function dismissUnknownFace(face: UnknownFace, reviewerId: string) {
+  const { error } = await supabase
+    .from("unknown_faces")
+    .update({ status: "dismissed", reviewed_by: reviewerId, reviewed_at: new Date().toISOString() })
+    .eq("id", face.id);
+  if (error) throw error;
+  await supabase.storage.from(BUCKET).remove([face.storage_path]);
+}
@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useAcademicCalendar } from "@/hooks/useAcademicCalendar";
+import { useSchoolSettings } from "@/hooks/useSchoolSettings";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { Plus, Trash2 } from "lucide-react";
+import { EVENT_KIND_LABELS, type CalendarEvent, type CalendarEventKind } from "@/lib/academicCalendar";
+import { WEEKDAYS } from "@/lib/facultyAssignments";
+import { saveSchoolSettings } from "@/lib/schoolSettings";
+
+const kindStyles: Record<CalendarEventKind, string> = {
+  term: "bg-accent/10 text-accent border-accent/20",
+  holiday: "bg-destructive/10 text-destructive border-destructive/20",
+  exam: "bg-warning/10 text-warning border-warning/20",
+  half_day: "bg-primary/10 text-primary border-primary/20",
+};
+
+const toRange = (e: CalendarEvent) => ({ from: parseISO(e.start_date), to: parseISO(e.end_date) });
+
+export default function AcademicCalendar() {
+  const { profile } = useAuth();
+  const { events, loading, refresh } = useAcademicCalendar();
+  const { settings, refresh: refreshSettings } = useSchoolSettings();
+  const [range, setRange] = useState<DateRange | undefined>();
+  const [kind, setKind] = useState<CalendarEventKind>("holiday");
+  const [title, setTitle] = useState("");
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile || !range?.from) {
+      toast.error("Select the days on the calendar first");
+      return;
+    }
+    const { error } = await supabase.from("academic_calendar_events").insert({
+      principal_id: profile.id,
+      kind,
+      title: title.trim(),
+      start_date: format(range.from, "yyyy-MM-dd"),
+      end_date: format(range.to ?? range.from, "yyyy-MM-dd"),
+    });
+    if (error) toast.error(error.message);
+    else {
+      toast.success(`${EVENT_KIND_LABELS[kind]} added`);
+      setTitle("");
+      setRange(undefined);
+      refresh();
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from("academic_calendar_events").delete().eq("id", id);
+    if (error) toast.error(error.message);
+    else refresh();
+  };
+
+  const toggleOffDay = async (weekday: number, off: boolean) => {
+    if (!profile) return;
+    const weekly_off_days = off
+      ? [...settings.weekly_off_days, weekday].sort((a, b) => a - b)
+      : settings.weekly_off_days.filter((d) => d !== weekday);
+    const { error } = await saveSchoolSettings(profile.id, { ...settings, weekly_off_days });
+    if (error) toast.error(error.message);
+    else refreshSettings();
+  };
+
+  if (profile?.role !== "principal") {
+    return (
+      <DashboardLayout>
+        <p className="text-muted-foreground">Only principals can edit the academic calendar.</p>
+      </DashboardLayout>
+    );
+  }
+
+  const ofKind = (k: CalendarEventKind) => events.filter((e) => e.kind === k).map(toRange);
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Academic Calendar</h1>
+          <p className="text-muted-foreground">
+            Terms, holidays, exams and half-days. Attendance can't be saved on closed days, and they are left out of
+            attendance statistics.
+          </p>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <Card className="lg:col-span-2">
+            <CardContent className="flex justify-center p-4">
+              <Calendar
+                mode="range"
+                numberOfMonths={2}
+                selected={range}
+                onSelect={setRange}
+                modifiers={{
+                  term: ofKind("term"),
+                  holiday: ofKind("holiday"),
+                  exam: ofKind("exam"),
+                  half_day: ofKind("half_day"),
+                  off: { dayOfWeek: settings.weekly_off_days },
+                }}
+                modifiersClassNames={{
+                  term: "font-semibold",
+                  holiday: "bg-destructive/15 text-destructive",
+                  exam: "bg-warning/15 text-warning",
+                  half_day: "bg-primary/10 text-primary",
+                  off: "text-muted-foreground opacity-50",
+                }}
+              />
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Add to Calendar</CardTitle>
+                <CardDescription>
+                  {range?.from
+                    ? `${format(range.from, "d MMM yyyy")}${range.to ? ` – ${format(range.to, "d MMM yyyy")}` : ""}`
+                    : "Select a day or range on the calendar"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleAdd} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label>Type</Label>
+                    <Select value={kind} onValueChange={(value) => setKind(value as CalendarEventKind)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(EVENT_KIND_LABELS) as CalendarEventKind[]).map((k) => (
+                          <SelectItem key={k} value={k}>
+                            {EVENT_KIND_LABELS[k]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Title</Label>
+                    <Input value={title} onChange={(e) => setTitle(e.target.value)} required />
+                  </div>
+                  <Button type="submit" className="w-full">
+                    <Plus className="mr-2 h-4 w-4" /> Add
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Weekly Off Days</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-2 gap-2">
+                {WEEKDAYS.map((day, i) => (
+                  <div key={day} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`off-${i}`}
+                      checked={settings.weekly_off_days.includes(i)}
+                      onCheckedChange={(checked) => toggleOffDay(i, checked === true)}
+                    />
+                    <Label htmlFor={`off-${i}`}>{day}</Label>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Title</TableHead>
+                  <TableHead>From</TableHead>
+                  <TableHead>To</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">Loading...</TableCell>
+                  </TableRow>
+                ) : events.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">Nothing on the calendar yet</TableCell>
+                  </TableRow>
+                ) : (
+                  events.map((e) => (
+                    <TableRow key={e.id}>
+                      <TableCell>
+                        <span className={`inline-flex items-center rounded-full border px-2.5 py-0.5 text-xs font-semibold ${kindStyles[e.kind]}`}>
+                          {EVENT_KIND_LABELS[e.kind]}
+                        </span>
+                      </TableCell>
+                      <TableCell className="font-medium">{e.title}</TableCell>
+                      <TableCell>{new Date(e.start_date).toLocaleDateString()}</TableCell>
+                      <TableCell>{new Date(e.end_date).toLocaleDateString()}</TableCell>
+                      <TableCell className="text-right">
+                        <button onClick={() => handleDelete(e.id)} title="Remove">
+                          <Trash2 className="h-4 w-4 text-destructive hover:text-destructive/80" />
+                        </button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
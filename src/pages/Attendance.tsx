@@ -1,6 +1,21 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useTimetable } from "@/hooks/useTimetable";
+import { useClasses } from "@/hooks/useClasses";
+import { formatSlotTimes, periodOptionLabel } from "@/lib/timetable";
+import { classLabel } from "@/lib/classes";
+import { STATUS_BADGE_CLASSES, STATUS_LABELS, type AttendanceStatus } from "@/lib/attendanceStatus";
+import {
+  downloadCsv,
+  downloadRegisterPdf,
+  downloadXlsx,
+  exportFileName,
+  type ExportColumn,
+  type ExportFormat,
+} from "@/lib/attendanceExport";
+import { useSchoolName } from "@/hooks/useSchoolName";
+import ExportMenu from "@/components/ExportMenu";
 import DashboardLayout from "@/components/DashboardLayout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
@@ -14,29 +29,40 @@ interface AttendanceRecord {
   student_id: string;
   date: string;
   period: number;
-  status: string;
+  status: AttendanceStatus;
+  arrived_at: string | null;
+  updated_at: string | null;
+  class_id: string | null;
   students?: { full_name: string; roll_number: string };
+  verifier?: { full_name: string | null } | null;
 }
 
 export default function Attendance() {
   const { profile } = useAuth();
+  const { periods } = useTimetable();
   const [records, setRecords] = useState<AttendanceRecord[]>([]);
   const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
   const [periodFilter, setPeriodFilter] = useState<string>("all");
+  const { classes } = useClasses();
+  const [classFilter, setClassFilter] = useState<string>("all");
   const [loading, setLoading] = useState(true);
+  const schoolName = useSchoolName();
 
   useEffect(() => {
     const fetchRecords = async () => {
       setLoading(true);
       let query = supabase
         .from("attendance_records")
-        .select("*, students(full_name, roll_number)")
+        .select("*, students(full_name, roll_number), verifier:profiles!attendance_records_verified_by_fkey(full_name)")
         .eq("date", date)
         .order("period");
 
       if (periodFilter !== "all") {
         query = query.eq("period", parseInt(periodFilter));
       }
+      if (classFilter !== "all") {
+        query = query.eq("class_id", classFilter);
+      }
 
       const { data } = await query;
       setRecords((data as any) || []);
@@ -44,38 +70,77 @@ export default function Attendance() {
     };
 
     fetchRecords();
-  }, [date, periodFilter]);
+  }, [date, periodFilter, classFilter]);
 
-  const statusBadge = (status: string) => {
-    const variants: Record<string, string> = {
-      present: "bg-accent/10 text-accent border-accent/20",
-      sleepy: "bg-warning/10 text-warning border-warning/20",
-      absent: "bg-destructive/10 text-destructive border-destructive/20",
-    };
+  const statusBadge = (status: AttendanceStatus) => {
     return (
-      <span className={`inline-flex items-center rounded-full border px-2.5 py-0.5 text-xs font-semibold capitalize ${variants[status] || ""}`}>
-        {status}
+      <span className={`inline-flex items-center rounded-full border px-2.5 py-0.5 text-xs font-semibold ${STATUS_BADGE_CLASSES[status] || ""}`}>
+        {STATUS_LABELS[status] ?? status}
       </span>
     );
   };
 
-  const periodTimes: Record<number, string> = {
-    1: "9:50 - 10:50",
-    2: "10:50 - 11:50",
-    3: "11:50 - 12:50",
-    4: "12:50 - 1:30 (Lunch)",
-    5: "1:30 - 2:30",
-    6: "2:30 - 3:30",
-    7: "3:30 - 4:30",
-    8: "4:30 - 5:30 (Optional)",
+  const periodTimesLabel = (period: number) => {
+    const slot = periods.find((p) => p.period === period);
+    return slot ? formatSlotTimes(slot) : "—";
+  };
+
+  const classNameFor = (classId: string | null) => {
+    const schoolClass = classes.find((c) => c.id === classId);
+    return schoolClass ? classLabel(schoolClass) : null;
+  };
+
+  const arrivalTime = (arrivedAt: string | null) =>
+    arrivedAt ? new Date(arrivedAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" }) : null;
+
+  // The PDF register shows the date in its heading and verifiers on the signature lines
+  const registerColumns: ExportColumn<AttendanceRecord>[] = [
+    { header: "Period", type: "number", value: (r) => r.period },
+    { header: "Roll No.", type: "string", value: (r) => r.students?.roll_number ?? null },
+    { header: "Student", type: "string", value: (r) => r.students?.full_name ?? null, width: 28 },
+    { header: "Class", type: "string", value: (r) => classNameFor(r.class_id), width: 16 },
+    { header: "Status", type: "string", value: (r) => STATUS_LABELS[r.status] ?? r.status, width: 14 },
+    { header: "Arrived", type: "string", value: (r) => arrivalTime(r.arrived_at) },
+  ];
+  const exportColumns: ExportColumn<AttendanceRecord>[] = [
+    { header: "Date", type: "date", value: (r) => r.date, width: 12 },
+    ...registerColumns,
+    { header: "Verified By", type: "string", value: (r) => r.verifier?.full_name ?? null, width: 24 },
+  ];
+
+  const handleExport = async (format: ExportFormat) => {
+    const periodLabel = periodFilter === "all" ? null : `period-${periodFilter}`;
+    const classLabelText = classFilter === "all" ? null : classNameFor(classFilter);
+    const fileName = exportFileName(["attendance", date, periodLabel, classLabelText], format);
+    if (format === "csv") {
+      downloadCsv(fileName, exportColumns, records);
+    } else if (format === "xlsx") {
+      await downloadXlsx(fileName, `Attendance ${date}`, exportColumns, records);
+    } else {
+      const signatories = [...new Set(records.map((r) => r.verifier?.full_name).filter((n): n is string => !!n))];
+      await downloadRegisterPdf(fileName, {
+        title: "Attendance Register",
+        schoolName,
+        details: [
+          new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { dateStyle: "full" }),
+          [periodFilter === "all" ? "All periods" : `Period ${periodFilter}`, classLabelText ?? "All classes"].join(" · "),
+        ],
+        columns: registerColumns,
+        rows: records,
+        signatories,
+      });
+    }
   };
 
   return (
     <DashboardLayout>
       <div className="space-y-6">
-        <div>
-          <h1 className="text-2xl font-bold text-foreground">Attendance Records</h1>
-          <p className="text-muted-foreground">View attendance records by date and period</p>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Attendance Records</h1>
+            <p className="text-muted-foreground">View attendance records by date and period</p>
+          </div>
+          <ExportMenu onExport={handleExport} disabled={loading || records.length === 0} />
         </div>
 
         <div className="flex flex-wrap gap-4">
@@ -91,14 +156,32 @@ export default function Attendance() {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Periods</SelectItem>
-                {[1, 2, 3, 4, 5, 6, 7, 8].map((p) => (
-                  <SelectItem key={p} value={p.toString()}>
-                    Period {p} ({periodTimes[p]})
+                {periods.map((p) => (
+                  <SelectItem key={p.period} value={p.period.toString()}>
+                    {periodOptionLabel(p)}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
           </div>
+          {classes.length > 0 && (
+            <div className="space-y-2">
+              <Label>Class</Label>
+              <Select value={classFilter} onValueChange={setClassFilter}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Classes</SelectItem>
+                  {classes.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {classLabel(c)} ({c.academic_year})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
         </div>
 
         <Card>
@@ -125,11 +208,24 @@ export default function Attendance() {
                 ) : (
                   records.map((r) => (
                     <TableRow key={r.id}>
-                      <TableCell className="font-medium">{(r as any).students?.roll_number || "—"}</TableCell>
-                      <TableCell>{(r as any).students?.full_name || "—"}</TableCell>
+                      <TableCell className="font-medium">{r.students?.roll_number || "—"}</TableCell>
+                      <TableCell>{r.students?.full_name || "—"}</TableCell>
                       <TableCell>Period {r.period}</TableCell>
-                      <TableCell className="text-muted-foreground text-sm">{periodTimes[r.period]}</TableCell>
-                      <TableCell>{statusBadge(r.status)}</TableCell>
+                      <TableCell className="text-muted-foreground text-sm">{periodTimesLabel(r.period)}</TableCell>
+                      <TableCell>
+                        {statusBadge(r.status)}
+                        {r.arrived_at && (
+                          <span className="ml-2 text-xs text-muted-foreground">arrived {arrivalTime(r.arrived_at)}</span>
+                        )}
+                        {r.updated_at && (
+                          <span
+                            className="ml-2 text-xs text-muted-foreground"
+                            title={`Edited ${new Date(r.updated_at).toLocaleString()}`}
+                          >
+                            edited
+                          </span>
+                        )}
+                      </TableCell>
                     </TableRow>
                   ))
                 )}
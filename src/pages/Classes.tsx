@@ -0,0 +1,156 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useClasses } from "@/hooks/useClasses";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Plus, Trash2 } from "lucide-react";
+import { classLabel, currentAcademicYear } from "@/lib/classes";
+
+export default function Classes() {
+  const { user, profile } = useAuth();
+  const { classes, loading, refresh } = useClasses();
+  const [studentCounts, setStudentCounts] = useState<Record<string, number>>({});
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [grade, setGrade] = useState("");
+  const [section, setSection] = useState("");
+  const [academicYear, setAcademicYear] = useState(currentAcademicYear());
+
+  useEffect(() => {
+    supabase
+      .from("students")
+      .select("class_id")
+      .not("class_id", "is", null)
+      .then(({ data }) => {
+        const counts: Record<string, number> = {};
+        for (const s of data || []) {
+          if (s.class_id) counts[s.class_id] = (counts[s.class_id] || 0) + 1;
+        }
+        setStudentCounts(counts);
+      });
+  }, [classes]);
+
+  const handleAddClass = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    const { error } = await supabase.from("classes").insert({
+      principal_id: user.id,
+      grade: grade.trim(),
+      section: section.trim().toUpperCase(),
+      academic_year: academicYear.trim(),
+    });
+    if (error) {
+      toast.error(error.message.includes("duplicate") ? "That class already exists" : error.message);
+    } else {
+      toast.success("Class added!");
+      setGrade("");
+      setSection("");
+      setDialogOpen(false);
+      refresh();
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from("classes").delete().eq("id", id);
+    if (error) toast.error(error.message);
+    else {
+      toast.success("Class removed");
+      refresh();
+    }
+  };
+
+  if (profile?.role !== "principal") {
+    return (
+      <DashboardLayout>
+        <p className="text-muted-foreground">Only principals can manage classes.</p>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Classes</h1>
+            <p className="text-muted-foreground">Grades and sections students are taught in</p>
+          </div>
+          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="mr-2 h-4 w-4" /> Add Class
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Add New Class</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleAddClass} className="space-y-4">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label>Grade</Label>
+                    <Input value={grade} onChange={(e) => setGrade(e.target.value)} placeholder="5" required />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Section</Label>
+                    <Input value={section} onChange={(e) => setSection(e.target.value)} placeholder="A" />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Academic Year</Label>
+                  <Input value={academicYear} onChange={(e) => setAcademicYear(e.target.value)} required />
+                </div>
+                <Button type="submit" className="w-full">Add Class</Button>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Class</TableHead>
+                  <TableHead>Academic Year</TableHead>
+                  <TableHead>Students</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">Loading...</TableCell>
+                  </TableRow>
+                ) : classes.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">No classes yet</TableCell>
+                  </TableRow>
+                ) : (
+                  classes.map((c) => (
+                    <TableRow key={c.id}>
+                      <TableCell className="font-medium">{classLabel(c)}</TableCell>
+                      <TableCell>{c.academic_year}</TableCell>
+                      <TableCell>{studentCounts[c.id] || 0}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(c.id)} title="Remove">
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -1,13 +1,20 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useAcademicCalendar } from "@/hooks/useAcademicCalendar";
+import { useSchoolSettings } from "@/hooks/useSchoolSettings";
+import { dayStatus } from "@/lib/academicCalendar";
 import DashboardLayout from "@/components/DashboardLayout";
+import DashboardCharts from "@/components/DashboardCharts";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Users, ClipboardList, UserPlus, Camera } from "lucide-react";
 
 export default function Dashboard() {
   const { profile } = useAuth();
   const [stats, setStats] = useState({ students: 0, todayRecords: 0, faculty: 0 });
+  const { events } = useAcademicCalendar();
+  const { settings } = useSchoolSettings();
+  const today = dayStatus(events, settings.weekly_off_days, new Date().toISOString().split("T")[0]);
 
   useEffect(() => {
     const fetchStats = async () => {
@@ -17,7 +24,11 @@ export default function Dashboard() {
         supabase.from("students").select("id", { count: "exact", head: true }),
         supabase.from("attendance_records").select("id", { count: "exact", head: true }).eq("date", today),
         profile?.role === "principal"
-          ? supabase.from("profiles").select("id", { count: "exact", head: true }).eq("principal_id", profile.id)
+          ? supabase
+              .from("profiles")
+              .select("id", { count: "exact", head: true })
+              .eq("principal_id", profile.id)
+              .eq("role", "faculty")
           : Promise.resolve({ count: 0 }),
       ]);
 
@@ -33,7 +44,13 @@ export default function Dashboard() {
 
   const cards = [
     { title: "Total Students", value: stats.students, icon: Users, color: "text-primary" },
-    { title: "Today's Records", value: stats.todayRecords, icon: ClipboardList, color: "text-accent" },
+    {
+      title: "Today's Records",
+      value: stats.todayRecords,
+      icon: ClipboardList,
+      color: "text-accent",
+      note: today.closed ? `School closed — ${today.reason}` : undefined,
+    },
     ...(profile?.role === "principal"
       ? [{ title: "Faculty Members", value: stats.faculty, icon: UserPlus, color: "text-primary" }]
       : []),
@@ -60,10 +77,13 @@ export default function Dashboard() {
               </CardHeader>
               <CardContent>
                 <p className="text-3xl font-bold">{card.value}</p>
+                {"note" in card && card.note && <p className="text-xs text-muted-foreground">{card.note}</p>}
               </CardContent>
             </Card>
           ))}
         </div>
+
+        {profile && <DashboardCharts isPrincipal={profile.role === "principal"} />}
       </div>
     </DashboardLayout>
   );
@@ -11,6 +11,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "sonner";
 import { Plus, Copy, UserPlus } from "lucide-react";
+import FacultyAssignments from "@/components/FacultyAssignments";
 
 interface FacultyProfile {
   id: string;
@@ -121,6 +122,7 @@ export default function Faculty() {
         <Tabs defaultValue="faculty">
           <TabsList>
             <TabsTrigger value="faculty">Faculty Members</TabsTrigger>
+            <TabsTrigger value="assignments">Assignments</TabsTrigger>
             <TabsTrigger value="codes">Invitation Codes</TabsTrigger>
           </TabsList>
 
@@ -157,6 +159,10 @@ export default function Faculty() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="assignments">
+            {user && <FacultyAssignments principalId={user.id} faculty={faculty} />}
+          </TabsContent>
+
           <TabsContent value="codes" className="space-y-4">
             <Button onClick={generateCode}>
               <Plus className="mr-2 h-4 w-4" /> Generate Code
@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useClasses } from "@/hooks/useClasses";
+import { useSchoolName } from "@/hooks/useSchoolName";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { ArrowLeft, Printer, User } from "lucide-react";
+import { classLabel } from "@/lib/classes";
+import { cardQrDataUrl, issueStudentCards } from "@/lib/studentCards";
+
+interface CardStudent {
+  id: string;
+  full_name: string;
+  roll_number: string;
+  photo_url: string | null;
+  class_id: string | null;
+}
+
+/**
+ * Printable ID cards for the students of one class (or all of them), each with a QR code
+ * signed for this school. Scanned in Live Attendance when face recognition misses someone.
+ */
+export default function IdCards() {
+  const { user, profile, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const classFilter = searchParams.get("class") || "all";
+  const { classes } = useClasses();
+  const [students, setStudents] = useState<CardStudent[]>([]);
+  const [qrCodes, setQrCodes] = useState<Record<string, string>>({});
+  const schoolName = useSchoolName();
+  const [loading, setLoading] = useState(true);
+
+  const principalId = profile?.role === "principal" ? profile.id : profile?.principal_id;
+
+  useEffect(() => {
+    if (!authLoading && !user) navigate("/login");
+  }, [authLoading, user, navigate]);
+
+  useEffect(() => {
+    if (!principalId) return;
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      let query = supabase
+        .from("students")
+        .select("id, full_name, roll_number, photo_url, class_id")
+        .order("roll_number");
+      if (classFilter === "none") query = query.is("class_id", null);
+      else if (classFilter !== "all") query = query.eq("class_id", classFilter);
+      const { data } = await query;
+      const rows = data || [];
+      try {
+        const payloads = await issueStudentCards(rows.map((s) => s.id));
+        const codes: Record<string, string> = {};
+        for (const [studentId, payload] of payloads) codes[studentId] = await cardQrDataUrl(payload);
+        if (cancelled) return;
+        setQrCodes(codes);
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : "Could not create ID cards");
+      }
+      if (cancelled) return;
+      setStudents(rows);
+      setLoading(false);
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [principalId, classFilter]);
+
+  const className = (id: string | null) => {
+    const c = classes.find((c) => c.id === id);
+    return c ? classLabel(c) : null;
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6 print:p-0">
+      <div className="mb-6 flex items-center justify-between gap-4 print:hidden">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Student ID Cards</h1>
+          <p className="text-muted-foreground">
+            {loading ? "Preparing cards..." : `${students.length} card${students.length === 1 ? "" : "s"} ready to print`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button asChild variant="outline">
+            <Link to="/students">
+              <ArrowLeft className="mr-2 h-4 w-4" /> Back
+            </Link>
+          </Button>
+          <Button onClick={() => window.print()} disabled={loading || students.length === 0}>
+            <Printer className="mr-2 h-4 w-4" /> Print
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-4 print:gap-2">
+        {students.map((s) => (
+          <div
+            key={s.id}
+            className="flex h-[54mm] w-[85.6mm] break-inside-avoid gap-3 rounded-lg border bg-card p-3 text-card-foreground"
+          >
+            <div className="flex flex-1 flex-col">
+              <p className="truncate text-xs font-semibold uppercase tracking-wide text-primary">
+                {schoolName || "Student ID"}
+              </p>
+              <div className="mt-2 flex items-center gap-2">
+                {s.photo_url ? (
+                  <img src={s.photo_url} alt={s.full_name} className="h-14 w-14 rounded object-cover" />
+                ) : (
+                  <div className="flex h-14 w-14 items-center justify-center rounded bg-muted">
+                    <User className="h-6 w-6 text-muted-foreground" />
+                  </div>
+                )}
+              </div>
+              <p className="mt-auto truncate text-sm font-bold">{s.full_name}</p>
+              <p className="text-xs text-muted-foreground">
+                Roll {s.roll_number}
+                {className(s.class_id) && ` · ${className(s.class_id)}`}
+              </p>
+            </div>
+            {qrCodes[s.id] && <img src={qrCodes[s.id]} alt="ID card QR code" className="h-full w-auto self-center" />}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { MonitorSmartphone } from "lucide-react";
+import KioskScreen from "@/components/KioskScreen";
+import { pairKiosk, type KioskDevice } from "@/lib/kiosk";
+
+const Spinner = () => (
+  <div className="flex min-h-screen items-center justify-center">
+    <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+  </div>
+);
+
+/**
+ * Entry point for classroom kiosks. A signed-out device is paired with a code from the
+ * principal's settings; a paired device goes straight to the full-screen door camera.
+ * Unlocking with the PIN leaves the camera but keeps the device paired.
+ */
+export default function Kiosk() {
+  const { user, profile, loading, signOut, refreshProfile } = useAuth();
+  // undefined while loading, null once we know this account has no kiosk
+  const [device, setDevice] = useState<KioskDevice | null | undefined>(undefined);
+  const [code, setCode] = useState("");
+  const [pairing, setPairing] = useState(false);
+  const [unlocked, setUnlocked] = useState(false);
+
+  const isKiosk = profile?.role === "kiosk";
+
+  useEffect(() => {
+    if (!user || !isKiosk) {
+      setDevice(undefined);
+      return;
+    }
+    supabase
+      .from("kiosk_devices")
+      .select("*")
+      .eq("device_user_id", user.id)
+      .maybeSingle()
+      .then(({ data }) => setDevice(data));
+  }, [user, isKiosk]);
+
+  const handlePair = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPairing(true);
+    try {
+      await pairKiosk(code);
+      await refreshProfile();
+      toast.success("Kiosk paired");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not pair kiosk");
+    }
+    setPairing(false);
+  };
+
+  if (loading) return <Spinner />;
+
+  // Staff signed in on this browser: kiosk mode needs its own device account
+  if (user && profile && !isKiosk) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Kiosk mode</CardTitle>
+            <CardDescription>
+              Kiosks run on a classroom device of their own. Add one under Settings, then open this page on that
+              device while signed out and enter its pairing code.
+            </CardDescription>
+          </CardHeader>
+          <CardFooter>
+            <Button asChild variant="outline">
+              <Link to="/dashboard">Back to dashboard</Link>
+            </Button>
+          </CardFooter>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isKiosk && device === undefined) return <Spinner />;
+
+  if (isKiosk && (!device || !profile?.principal_id)) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Kiosk removed</CardTitle>
+            <CardDescription>The principal has removed this kiosk. Pair it again with a new code.</CardDescription>
+          </CardHeader>
+          <CardFooter>
+            <Button onClick={signOut}>Pair again</Button>
+          </CardFooter>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isKiosk && device && profile?.principal_id && unlocked) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>{device.name}</CardTitle>
+            <CardDescription>
+              Paired {device.paired_at ? new Date(device.paired_at).toLocaleDateString() : ""}
+              {device.timezone ? ` · ${device.timezone}` : ""}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm text-muted-foreground">
+            {!device.timezone && (
+              <p className="text-destructive">
+                This kiosk was registered before arrivals were timed on the server. Remove it in Settings and
+                register it again.
+              </p>
+            )}
+            <p>Unpairing signs this device out. It can only be paired again with a new code from Settings.</p>
+          </CardContent>
+          <CardFooter className="flex justify-between gap-2">
+            <Button variant="outline" onClick={signOut}>
+              Unpair this device
+            </Button>
+            <Button onClick={() => setUnlocked(false)}>Resume kiosk</Button>
+          </CardFooter>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isKiosk && device && profile?.principal_id) {
+    return <KioskScreen device={device} principalId={profile.principal_id} onExit={() => setUnlocked(true)} />;
+  }
+
+  // Signed in but the profile is still loading; anonymous sessions without a profile can pair
+  if (user && !profile && !user.is_anonymous) return <Spinner />;
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <div className="w-full max-w-md">
+        <div className="mb-8 text-center">
+          <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-2xl bg-primary text-primary-foreground">
+            <MonitorSmartphone className="h-8 w-8" />
+          </div>
+          <h1 className="text-3xl font-bold tracking-tight text-foreground">Classroom Kiosk</h1>
+          <p className="mt-1 text-muted-foreground">Set this device up to record arrivals at the door</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Pair this device</CardTitle>
+            <CardDescription>Enter the pairing code shown in the principal's settings</CardDescription>
+          </CardHeader>
+          <form onSubmit={handlePair}>
+            <CardContent>
+              <div className="space-y-2">
+                <Label htmlFor="pairingCode">Pairing Code</Label>
+                <Input
+                  id="pairingCode"
+                  className="font-mono uppercase tracking-widest"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.toUpperCase())}
+                  required
+                />
+              </div>
+            </CardContent>
+            <CardFooter>
+              <Button type="submit" className="w-full" disabled={pairing}>
+                {pairing ? "Pairing..." : "Pair Kiosk"}
+              </Button>
+            </CardFooter>
+          </form>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Check, Paperclip, Plus, X } from "lucide-react";
+import {
+  leaveAttachmentUrl,
+  reviewLeaveRequest,
+  submitLeaveRequest,
+  type LeaveRequest,
+} from "@/lib/leaveRequests";
+
+interface LeaveRequestRow extends LeaveRequest {
+  students?: { full_name: string; roll_number: string } | null;
+  requester?: { full_name: string | null } | null;
+}
+
+interface StudentOption {
+  id: string;
+  full_name: string;
+  roll_number: string;
+}
+
+const statusStyles: Record<string, string> = {
+  pending: "bg-warning/10 text-warning border-warning/20",
+  approved: "bg-accent/10 text-accent border-accent/20",
+  rejected: "bg-destructive/10 text-destructive border-destructive/20",
+};
+
+export default function LeaveRequests() {
+  const { user, profile } = useAuth();
+  const [requests, setRequests] = useState<LeaveRequestRow[]>([]);
+  const [students, setStudents] = useState<StudentOption[]>([]);
+  const [statusFilter, setStatusFilter] = useState("pending");
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [studentId, setStudentId] = useState("");
+  const [startDate, setStartDate] = useState(new Date().toISOString().split("T")[0]);
+  const [endDate, setEndDate] = useState(new Date().toISOString().split("T")[0]);
+  const [reason, setReason] = useState("");
+  const [attachment, setAttachment] = useState<File | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const principalId = profile?.role === "principal" ? profile.id : profile?.principal_id;
+  const isPrincipal = profile?.role === "principal";
+
+  const fetchRequests = useCallback(async () => {
+    setLoading(true);
+    const { data } = await supabase
+      .from("leave_requests")
+      .select(
+        "*, students(full_name, roll_number), requester:profiles!leave_requests_requested_by_fkey(full_name)"
+      )
+      .eq("status", statusFilter)
+      .order("start_date", { ascending: false })
+      .limit(200);
+    setRequests((data as LeaveRequestRow[]) || []);
+    setLoading(false);
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  useEffect(() => {
+    supabase
+      .from("students")
+      .select("id, full_name, roll_number")
+      .order("roll_number")
+      .then(({ data }) => setStudents(data || []));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !principalId) {
+      toast.error("No principal linked to your account");
+      return;
+    }
+    if (!studentId) {
+      toast.error("Choose a student");
+      return;
+    }
+    if (endDate < startDate) {
+      toast.error("The leave must end on or after the day it starts");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      await submitLeaveRequest(
+        { principalId, requestedBy: user.id, studentId, startDate, endDate, reason: reason.trim() },
+        attachment
+      );
+      toast.success(isPrincipal ? "Leave request added" : "Leave request sent to the principal");
+      setStudentId("");
+      setReason("");
+      setAttachment(null);
+      setDialogOpen(false);
+      fetchRequests();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not submit leave request");
+    }
+    setSubmitting(false);
+  };
+
+  const handleReview = async (request: LeaveRequestRow, decision: "approved" | "rejected") => {
+    if (!user) return;
+    setBusyId(request.id);
+    try {
+      await reviewLeaveRequest(request.id, decision, user.id);
+      toast.success(decision === "approved" ? "Leave approved" : "Leave rejected");
+      fetchRequests();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not update leave request");
+    }
+    setBusyId(null);
+  };
+
+  const openAttachment = async (path: string) => {
+    try {
+      window.open(await leaveAttachmentUrl(path), "_blank", "noopener");
+    } catch {
+      toast.error("Could not open attachment");
+    }
+  };
+
+  const formatRange = (r: LeaveRequest) =>
+    r.start_date === r.end_date
+      ? new Date(r.start_date).toLocaleDateString()
+      : `${new Date(r.start_date).toLocaleDateString()} – ${new Date(r.end_date).toLocaleDateString()}`;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Leave Requests</h1>
+            <p className="text-muted-foreground">
+              Approved leave is filled in as excused when attendance is taken
+            </p>
+          </div>
+          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="mr-2 h-4 w-4" /> New Request
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>New Leave Request</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Student</Label>
+                  <Select value={studentId} onValueChange={setStudentId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select student" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {students.map((s) => (
+                        <SelectItem key={s.id} value={s.id}>
+                          {s.roll_number} — {s.full_name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label>From</Label>
+                    <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} required />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>To</Label>
+                    <Input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} required />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Reason</Label>
+                  <Textarea value={reason} onChange={(e) => setReason(e.target.value)} required />
+                </div>
+                <div className="space-y-2">
+                  <Label>Attachment (optional)</Label>
+                  <Input
+                    type="file"
+                    accept="image/*,application/pdf"
+                    onChange={(e) => setAttachment(e.target.files?.[0] || null)}
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={submitting}>
+                  {submitting ? "Submitting..." : "Submit Request"}
+                </Button>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Status</Label>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="approved">Approved</SelectItem>
+              <SelectItem value="rejected">Rejected</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Requested by</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">Loading...</TableCell>
+                  </TableRow>
+                ) : requests.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">No {statusFilter} requests</TableCell>
+                  </TableRow>
+                ) : (
+                  requests.map((r) => (
+                    <TableRow key={r.id}>
+                      <TableCell className="font-medium">
+                        {r.students?.full_name || "—"}
+                        {r.students && (
+                          <span className="block text-xs text-muted-foreground">Roll {r.students.roll_number}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatRange(r)}</TableCell>
+                      <TableCell className="max-w-xs text-sm">{r.reason}</TableCell>
+                      <TableCell>{r.requester?.full_name || "—"}</TableCell>
+                      <TableCell>
+                        <span className={`inline-flex items-center rounded-full border px-2.5 py-0.5 text-xs font-semibold capitalize ${statusStyles[r.status] || ""}`}>
+                          {r.status}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          {r.attachment_path && (
+                            <button onClick={() => openAttachment(r.attachment_path!)} title="Open attachment">
+                              <Paperclip className="h-4 w-4 text-muted-foreground hover:text-foreground" />
+                            </button>
+                          )}
+                          {isPrincipal && r.status === "pending" && (
+                            <>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={busyId === r.id}
+                                onClick={() => handleReview(r, "rejected")}
+                              >
+                                <X className="mr-1 h-4 w-4" /> Reject
+                              </Button>
+                              <Button size="sm" disabled={busyId === r.id} onClick={() => handleReview(r, "approved")}>
+                                <Check className="mr-1 h-4 w-4" /> Approve
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
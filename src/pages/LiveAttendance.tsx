@@ -1,15 +1,61 @@
-import { useEffect, useRef, useState, useCallback } from "react";
+import { useEffect, useMemo, useRef, useState, useCallback } from "react";
 import Webcam from "react-webcam";
+import { format } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import DashboardLayout from "@/components/DashboardLayout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { toast } from "sonner";
-import { Camera, CameraOff, CheckCircle, AlertTriangle, XCircle } from "lucide-react";
+import {
+  Camera,
+  CameraOff,
+  CheckCircle,
+  AlertTriangle,
+  XCircle,
+  Clock,
+  FileCheck,
+  Stethoscope,
+  Briefcase,
+  type LucideIcon,
+} from "lucide-react";
+import {
+  classifyMatch,
+  cropFace,
+  cropFaceBlob,
+  loadFaceApi,
+  type FaceApiModule,
+} from "@/lib/faceRecognition";
+import { isNetworkError, queueAttendanceBatch, sendAttendance } from "@/lib/attendanceSync";
+import { cacheRoster, loadCachedRoster } from "@/lib/offlineStore";
+import { captureUnknownFace, MIN_CAPTURE_SCORE, SAME_UNKNOWN_DISTANCE } from "@/lib/unknownFaces";
+import { loadStudentMatcher } from "@/lib/faceDescriptors";
+import { createFaceDetector, type FaceDetector } from "@/lib/faceDetectionClient";
+import { landmarksFromPoints } from "@/lib/faceDetectionProtocol";
+import { AdaptiveFrameRate } from "@/lib/frameRate";
+import { DrowsinessTracker, measureDrowsiness, type DrowsinessThresholds } from "@/lib/drowsiness";
+import { LivenessTracker, type LivenessOptions, type LivenessOutcome } from "@/lib/liveness";
+import { useSchoolSettings } from "@/hooks/useSchoolSettings";
+import { useTimetable } from "@/hooks/useTimetable";
+import { useClasses } from "@/hooks/useClasses";
+import { useAcademicCalendar } from "@/hooks/useAcademicCalendar";
+import { useRollCallKeyboard } from "@/hooks/useRollCallKeyboard";
+import { dayStatus } from "@/lib/academicCalendar";
+import { ATTENDANCE_STATUSES, STATUS_LABELS, type AttendanceStatus } from "@/lib/attendanceStatus";
+import { classLabel } from "@/lib/classes";
+import { isCardPayload, scanQrCode, verifyStudentCard } from "@/lib/studentCards";
+import { fetchStudentsOnLeave } from "@/lib/leaveRequests";
+import { slotsForDate, WEEKDAYS, weekdayOf, type FacultyAssignment } from "@/lib/facultyAssignments";
+import { findCurrentPeriod, formatTime, periodOptionLabel, periodTiming } from "@/lib/timetable";
+import FaceOverlay, { type OverlayFace } from "@/components/FaceOverlay";
+import MatchReviewPanel, { type PendingReview } from "@/components/MatchReviewPanel";
+import RollCallShortcuts from "@/components/RollCallShortcuts";
+import type { SchoolSettings } from "@/lib/schoolSettings";
+import type { FaceMatcher } from "face-api.js";
 
 interface Student {
   id: string;
@@ -22,130 +68,767 @@ interface AttendanceEntry {
   studentId: string;
   studentName: string;
   rollNumber: string;
-  status: "present" | "sleepy" | "absent";
+  status: AttendanceStatus;
+  markedBy?: "auto" | "manual";
+  liveness?: LivenessOutcome;
+  // When the student arrived (marked late, or checked in at a kiosk), as an ISO timestamp
+  arrivedAt?: string | null;
+  // Covered by an approved leave request for the selected date
+  onLeave?: boolean;
+  // Looked sleepy on camera. Present students are marked sleepy; late ones keep their late mark
+  sleepy?: boolean;
 }
 
-const periodTimes: Record<number, { start: string; end: string; label: string }> = {
-  1: { start: "09:50", end: "10:50", label: "Period 1 (9:50 - 10:50)" },
-  2: { start: "10:50", end: "11:50", label: "Period 2 (10:50 - 11:50)" },
-  3: { start: "11:50", end: "12:50", label: "Period 3 (11:50 - 12:50)" },
-  4: { start: "12:50", end: "13:30", label: "Period 4 (12:50 - 1:30)" },
-  5: { start: "13:30", end: "14:30", label: "Period 5 (1:30 - 2:30)" },
-  6: { start: "14:30", end: "15:30", label: "Period 6 (2:30 - 3:30)" },
-  7: { start: "15:30", end: "16:30", label: "Period 7 (3:30 - 4:30)" },
-  8: { start: "16:30", end: "17:30", label: "Period 8 (4:30 - 5:30) - Optional" },
+// What is already stored for the selected date and period, keyed by student
+type SavedRecords = Record<string, { status: AttendanceStatus; verifiedBy: string; arrivedAt: string | null }>;
+
+const statusButtons: Record<AttendanceStatus, { icon: LucideIcon; active: string; iconActive: string }> = {
+  present: { icon: CheckCircle, active: "bg-accent/10 ring-2 ring-accent", iconActive: "text-accent" },
+  late: { icon: Clock, active: "bg-warning/10 ring-2 ring-warning", iconActive: "text-warning" },
+  sleepy: { icon: AlertTriangle, active: "bg-warning/10 ring-2 ring-warning", iconActive: "text-warning" },
+  absent: { icon: XCircle, active: "bg-destructive/10 ring-2 ring-destructive", iconActive: "text-destructive" },
+  excused: { icon: FileCheck, active: "bg-primary/10 ring-2 ring-primary", iconActive: "text-primary" },
+  medical_leave: { icon: Stethoscope, active: "bg-primary/10 ring-2 ring-primary", iconActive: "text-primary" },
+  on_duty: { icon: Briefcase, active: "bg-accent/10 ring-2 ring-accent", iconActive: "text-accent" },
 };
 
+// How often the camera is checked for ID card QR codes, and how long the same card is ignored.
+const CARD_SCAN_INTERVAL_MS = 300;
+const CARD_REPEAT_MS = 5000;
+
+const drowsinessThresholds = (settings: SchoolSettings): DrowsinessThresholds => ({
+  eyeAspectRatio: settings.sleepy_eye_aspect_ratio,
+  headDroopRatio: settings.sleepy_head_droop_ratio,
+  durationMs: settings.sleepy_duration_seconds * 1000,
+});
+
+const livenessOptions = (settings: SchoolSettings): LivenessOptions => ({
+  mode: settings.liveness_mode,
+  timeoutMs: settings.liveness_timeout_seconds * 1000,
+});
+
+// Today on the local clock, which periodTiming compares the selected date against
+const todayISO = () => format(new Date(), "yyyy-MM-dd");
+
 export default function LiveAttendance() {
   const { user, profile } = useAuth();
+  const { settings } = useSchoolSettings();
+  const { periods, loading: timetableLoading } = useTimetable();
+  const { classes, loading: classesLoading } = useClasses();
+  const { events: calendarEvents } = useAcademicCalendar();
   const webcamRef = useRef<Webcam>(null);
   const [cameraOn, setCameraOn] = useState(false);
+  const [scanCards, setScanCards] = useState(false);
+  const [selectedClass, setSelectedClass] = useState("");
+  const [assignments, setAssignments] = useState<FacultyAssignment[]>([]);
+  const [selectedDate, setSelectedDate] = useState(todayISO);
   const [selectedPeriod, setSelectedPeriod] = useState("1");
-  const [period8Free, setPeriod8Free] = useState(false);
+  // Optional periods the teacher has marked free today
+  const [freePeriods, setFreePeriods] = useState<number[]>([]);
   const [students, setStudents] = useState<Student[]>([]);
   const [attendance, setAttendance] = useState<AttendanceEntry[]>([]);
+  const [savedRecords, setSavedRecords] = useState<SavedRecords>({});
   const [saving, setSaving] = useState(false);
+  const [keyboardMode, setKeyboardMode] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+  // Lets a principal record new attendance outside the period's time window
+  const [overrideWindow, setOverrideWindow] = useState(false);
   const [faceApiLoaded, setFaceApiLoaded] = useState(false);
+  const [matcher, setMatcher] = useState<FaceMatcher | null>(null);
+  const [matcherLoading, setMatcherLoading] = useState(false);
+  const [detector, setDetector] = useState<FaceDetector | null>(null);
+  // Frames analysed per second, as paced to this device's detection speed
+  const [detectionFps, setDetectionFps] = useState<number | null>(null);
+  const [overlay, setOverlay] = useState<{ faces: OverlayFace[]; width: number; height: number }>({
+    faces: [],
+    width: 0,
+    height: 0,
+  });
+  const [reviews, setReviews] = useState<PendingReview[]>([]);
+  const faceApiRef = useRef<FaceApiModule | null>(null);
+  const attendanceRef = useRef<AttendanceEntry[]>([]);
+  // Students whose borderline match the teacher already confirmed or rejected this period
+  const reviewedRef = useRef(new Set<string>());
+  // Descriptors of unknown faces already logged this period, so each person is captured once
+  const unknownSeenRef = useRef<Float32Array[]>([]);
+  // Set once the teacher picks a period, so the clock stops choosing one for them
+  const periodChosenRef = useRef(false);
+  const drowsinessRef = useRef(new DrowsinessTracker(drowsinessThresholds(settings)));
+  const livenessRef = useRef(new LivenessTracker(livenessOptions(settings)));
+
+  const principalId = profile?.role === "principal" ? profile.id : profile?.principal_id;
+  const isPrincipal = profile?.role === "principal";
+
+  useEffect(() => {
+    if (!user) return;
+    supabase
+      .from("faculty_assignments")
+      .select("*")
+      .then(({ data }) => setAssignments(data || []));
+  }, [user]);
+
+  // Once a school assigns slots, faculty only see the classes and periods they teach that day
+  const restrictToAssignments = !isPrincipal && assignments.length > 0;
+  const mySlots = useMemo(
+    () => (user ? slotsForDate(assignments, user.id, selectedDate) : []),
+    [assignments, user, selectedDate]
+  );
+  const availableClasses = useMemo(
+    () => (restrictToAssignments ? classes.filter((c) => mySlots.some((a) => a.class_id === c.id)) : classes),
+    [classes, mySlots, restrictToAssignments]
+  );
+  const availablePeriods = useMemo(
+    () =>
+      restrictToAssignments
+        ? periods.filter((p) => mySlots.some((a) => a.class_id === selectedClass && a.period === p.period))
+        : periods,
+    [periods, mySlots, restrictToAssignments, selectedClass]
+  );
+
+  // Prefer the class being taught right now, otherwise the first one available
+  useEffect(() => {
+    if (classesLoading || availableClasses.some((c) => c.id === selectedClass)) return;
+    const current = findCurrentPeriod(periods, new Date());
+    const teaching = mySlots.find((a) => a.period === current?.period);
+    setSelectedClass(teaching?.class_id ?? availableClasses[0]?.id ?? "");
+  }, [availableClasses, classesLoading, mySlots, periods, selectedClass]);
 
+  // Schools that have set up classes take attendance one class at a time; schools without
+  // classes keep using the whole student list
   useEffect(() => {
+    if (!user || classesLoading) return;
+    if (classes.length > 0 && !selectedClass) {
+      setStudents([]);
+      return;
+    }
+    // Fall back to the roster cached on this device so the page works without a connection
     const fetchStudents = async () => {
-      const { data } = await supabase.from("students").select("*").order("roll_number");
-      if (data) {
-        setStudents(data);
-        // Initialize all as absent
-        setAttendance(
-          data.map((s) => ({
-            studentId: s.id,
-            studentName: s.full_name,
-            rollNumber: s.roll_number,
-            status: "absent" as const,
-          }))
-        );
+      let query = supabase.from("students").select("*").order("roll_number");
+      if (selectedClass) query = query.eq("class_id", selectedClass);
+      const { data, error } = await query;
+
+      const cacheKey = selectedClass ? `${user.id}:${selectedClass}` : user.id;
+      let roster: Student[] | undefined = data ?? undefined;
+      if (error) {
+        roster = (await loadCachedRoster<Student>(cacheKey).catch(() => undefined))?.students;
+        if (roster) toast.info("Offline — using the saved student list");
+      } else if (data) {
+        cacheRoster(cacheKey, data).catch(() => undefined);
       }
+      if (roster) setStudents(roster);
     };
     fetchStudents();
+  }, [user, classes, classesLoading, selectedClass]);
+
+  // Start from what is already saved for this date and period so mistakes can be corrected;
+  // students on approved leave start excused and everyone else without a record starts absent.
+  // Saved statuses count as manual marks, so recognition never overrides them.
+  useEffect(() => {
+    if (students.length === 0) {
+      setAttendance([]);
+      return;
+    }
+
+    let cancelled = false;
+    const loadSaved = async () => {
+      const ids = students.map((s) => s.id);
+      const [{ data }, onLeave] = await Promise.all([
+        supabase
+          .from("attendance_records")
+          .select("student_id, status, verified_by, arrived_at")
+          .eq("date", selectedDate)
+          .eq("period", parseInt(selectedPeriod))
+          .in("student_id", ids),
+        fetchStudentsOnLeave(selectedDate, ids).catch(() => new Set<string>()),
+      ]);
+      if (cancelled) return;
+
+      const saved: SavedRecords = {};
+      for (const record of data || []) {
+        saved[record.student_id] = {
+          status: record.status,
+          verifiedBy: record.verified_by,
+          arrivedAt: record.arrived_at,
+        };
+      }
+      setSavedRecords(saved);
+      setAttendance(
+        students.map((s) => ({
+          studentId: s.id,
+          studentName: s.full_name,
+          rollNumber: s.roll_number,
+          status: saved[s.id]?.status ?? (onLeave.has(s.id) ? "excused" : "absent"),
+          markedBy: saved[s.id] || onLeave.has(s.id) ? "manual" : undefined,
+          arrivedAt: saved[s.id]?.arrivedAt,
+          onLeave: onLeave.has(s.id),
+        }))
+      );
+    };
+    loadSaved();
+    return () => {
+      cancelled = true;
+    };
+  }, [students, selectedDate, selectedPeriod]);
+
+  useEffect(() => {
+    attendanceRef.current = attendance;
+  }, [attendance]);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 30_000);
+    return () => window.clearInterval(timer);
   }, []);
 
+  // Start on the period that is running now, and keep the selection valid when the school's
+  // timetable loads with different period numbers or the class has other assigned periods
+  useEffect(() => {
+    if (timetableLoading || availablePeriods.length === 0) return;
+    const valid = availablePeriods.some((p) => p.period.toString() === selectedPeriod);
+    if (periodChosenRef.current && valid) return;
+    const current = findCurrentPeriod(availablePeriods, new Date());
+    if (current) {
+      setSelectedPeriod(current.period.toString());
+    } else if (!valid) {
+      setSelectedPeriod(availablePeriods[0].period.toString());
+    }
+  }, [availablePeriods, timetableLoading, selectedPeriod]);
+
+  useEffect(() => {
+    reviewedRef.current.clear();
+    unknownSeenRef.current = [];
+    setReviews([]);
+    setOverrideWindow(false);
+  }, [selectedClass, selectedDate, selectedPeriod]);
+
   // Load face-api.js models
   useEffect(() => {
-    const loadModels = async () => {
-      try {
-        const faceapi = await import("face-api.js");
-        const MODEL_URL = "/models";
-        
-        // Try loading models - if they fail, we'll use manual mode
-        try {
-          await Promise.all([
-            faceapi.nets.tinyFaceDetector.loadFromUri(MODEL_URL),
-            faceapi.nets.faceLandmark68Net.loadFromUri(MODEL_URL),
-            faceapi.nets.faceRecognitionNet.loadFromUri(MODEL_URL),
-          ]);
-          setFaceApiLoaded(true);
-        } catch {
-          console.log("Face-api models not available, using manual mode");
+    loadFaceApi()
+      .then((faceapi) => {
+        faceApiRef.current = faceapi;
+        setFaceApiLoaded(true);
+      })
+      .catch(() => {
+        console.log("Face-api models not available, using manual mode");
+      });
+  }, []);
+
+  // Detection runs in a worker so analysing frames never blocks the student list
+  useEffect(() => {
+    let cancelled = false;
+    let started: FaceDetector | null = null;
+    createFaceDetector(() =>
+      toast.warning("Face detection restarted on the main thread; the page may respond more slowly")
+    )
+      .then((created) => {
+        if (cancelled) {
+          created.dispose();
+          return;
         }
-      } catch {
-        console.log("Face-api not available, using manual mode");
-      }
+        started = created;
+        setDetector(created);
+      })
+      .catch(() => {
+        console.log("Face detection not available, using manual mode");
+      });
+    return () => {
+      cancelled = true;
+      started?.dispose();
     };
-    loadModels();
   }, []);
 
-  const updateStatus = (studentId: string, status: "present" | "sleepy" | "absent") => {
+  // Load the school's cached matcher once both the models and the roster are ready
+  useEffect(() => {
+    if (!faceApiLoaded || !principalId || students.length === 0) return;
+
+    let cancelled = false;
+    setMatcherLoading(true);
+    loadStudentMatcher(principalId, students)
+      .then((loaded) => {
+        if (!cancelled) setMatcher(loaded);
+      })
+      .catch(() => {
+        if (!cancelled) toast.error("Could not load enrolled faces");
+      })
+      .finally(() => {
+        if (!cancelled) setMatcherLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [faceApiLoaded, principalId, students]);
+
+  useEffect(() => {
+    drowsinessRef.current.setThresholds(drowsinessThresholds(settings));
+    livenessRef.current.setOptions(livenessOptions(settings));
+  }, [settings]);
+
+  // Recognitions after this moment are marked late; null unless the period is today
+  const lateFrom = useMemo(() => {
+    const slot = periods.find((p) => p.period.toString() === selectedPeriod);
+    if (!slot || selectedDate !== todayISO()) return null;
+    const [hours, minutes] = slot.start_time.split(":").map(Number);
+    const at = new Date();
+    at.setHours(hours, minutes + settings.late_after_minutes, 0, 0);
+    return at.getTime();
+  }, [periods, selectedPeriod, selectedDate, settings.late_after_minutes]);
+
+  // Only faces that passed the liveness check may be auto-marked present (or late);
+  // inconclusive ones are surfaced for the teacher to decide.
+  const applyRecognition = useCallback(
+    (outcomes: Map<string, LivenessOutcome>, autoMark: boolean, seenAt: number, lateAfter: number | null) => {
+      const late = lateAfter !== null && seenAt > lateAfter;
+      setAttendance((prev) =>
+        prev.map((a) => {
+          const liveness = outcomes.get(a.studentId);
+          if (!liveness) return a;
+          const canMark = autoMark && liveness === "live" && a.markedBy !== "manual" && a.status === "absent";
+          if (!canMark) return { ...a, liveness };
+          return late
+            ? { ...a, liveness, status: "late" as const, markedBy: "auto" as const, arrivedAt: new Date(seenAt).toISOString() }
+            : { ...a, liveness, status: "present" as const, markedBy: "auto" as const };
+        })
+      );
+      // A clear, live match settles any borderline review queued earlier for the same student
+      if (autoMark) setReviews((prev) => prev.filter((r) => outcomes.get(r.studentId) !== "live"));
+    },
+    []
+  );
+
+  // Queue borderline matches once per student, skipping anyone already marked or reviewed
+  const queueReviews = useCallback((candidates: PendingReview[]) => {
+    const pending = candidates.filter((c) => {
+      const entry = attendanceRef.current.find((a) => a.studentId === c.studentId);
+      return entry && entry.status === "absent" && entry.markedBy !== "manual" && !reviewedRef.current.has(c.studentId);
+    });
+    if (pending.length === 0) return;
+    setReviews((prev) => [...prev, ...pending.filter((c) => !prev.some((r) => r.studentId === c.studentId))]);
+  }, []);
+
+  const logUnknownFace = useCallback(
+    (descriptor: Float32Array, video: HTMLVideoElement, box: { x: number; y: number; width: number; height: number }) => {
+      const faceapi = faceApiRef.current;
+      if (!faceapi || !user || !principalId) return;
+      const seen = unknownSeenRef.current;
+      if (seen.some((d) => faceapi.euclideanDistance(d, descriptor) < SAME_UNKNOWN_DISTANCE)) return;
+      seen.push(descriptor);
+
+      const context = {
+        principalId,
+        facultyId: user.id,
+        date: selectedDate,
+        period: parseInt(selectedPeriod),
+      };
+      cropFaceBlob(video, box)
+        .then((image) => image && captureUnknownFace(context, image))
+        .catch((err) => console.log("Could not log unknown face", err));
+    },
+    [user, principalId, selectedDate, selectedPeriod]
+  );
+
+  const markSleepy = useCallback((studentId: string) => {
     setAttendance((prev) =>
-      prev.map((a) => (a.studentId === studentId ? { ...a, status } : a))
+      prev.map((a) =>
+        a.studentId === studentId && a.markedBy === "auto"
+          ? { ...a, sleepy: true, status: a.status === "present" ? ("sleepy" as const) : a.status }
+          : a
+      )
     );
+  }, []);
+
+  // Detection loop: analyse frames as fast as this device keeps up with, mark recognised
+  // students present and track their eyes and head position to spot sleepy students
+  useEffect(() => {
+    if (!cameraOn || !detector || !matcher) return;
+    const tracker = drowsinessRef.current;
+    const liveness = livenessRef.current;
+    const thresholds = { threshold: settings.match_threshold, reviewMargin: settings.match_review_margin };
+    const frameRate = new AdaptiveFrameRate();
+    let active = true;
+    let timer: number | undefined;
+
+    const analyseFrame = async () => {
+      const video = webcamRef.current?.video;
+      if (!video || video.readyState < 2) {
+        timer = window.setTimeout(analyseFrame, frameRate.intervalMs);
+        return;
+      }
+
+      const started = performance.now();
+      try {
+        const results = await detector.detect(video);
+        const now = Date.now();
+        const outcomes = new Map<string, LivenessOutcome>();
+        const faces: OverlayFace[] = [];
+        const borderline: PendingReview[] = [];
+        for (const result of results) {
+          const match = classifyMatch(matcher, result.descriptor, thresholds);
+          const { box } = result;
+          if (!match.studentId) {
+            faces.push({ box, kind: "unknown", label: "Unknown", distance: match.distance });
+            if (result.score >= MIN_CAPTURE_SCORE) logUnknownFace(result.descriptor, video, box);
+            continue;
+          }
+
+          const matched = students.find((s) => s.id === match.studentId);
+          // Enrolled at the school but not on the roster being taken
+          if (!matched) {
+            faces.push({ box, kind: "pending", label: "Not in this class", distance: match.distance });
+            continue;
+          }
+
+          if (match.confidence === "borderline") {
+            faces.push({
+              box,
+              kind: "pending",
+              label: matched.full_name,
+              detail: `Roll ${matched.roll_number} · needs review`,
+              distance: match.distance,
+            });
+            borderline.push({
+              studentId: matched.id,
+              studentName: matched.full_name,
+              rollNumber: matched.roll_number,
+              photoUrl: matched.photo_url,
+              crop: cropFace(video, box),
+              distance: match.distance,
+            });
+            continue;
+          }
+
+          const landmarks = landmarksFromPoints(result.landmarks);
+          const outcome = liveness.update(match.studentId, landmarks, now);
+          outcomes.set(match.studentId, outcome);
+          faces.push({
+            box,
+            kind: outcome === "live" ? "recognised" : "pending",
+            label: matched.full_name,
+            detail: `Roll ${matched.roll_number}${outcome === "live" ? "" : " · checking liveness"}`,
+            distance: match.distance,
+          });
+
+          // Only students the camera already marked in through a live match are watched for sleepiness
+          const entry = attendanceRef.current.find((a) => a.studentId === match.studentId);
+          const watchSleepy =
+            settings.auto_mark_present &&
+            outcome === "live" &&
+            entry?.markedBy === "auto" &&
+            (entry.status === "present" || entry.status === "late");
+          if (watchSleepy && tracker.update(match.studentId, measureDrowsiness(landmarks), now)) {
+            markSleepy(match.studentId);
+            toast.warning(`${matched.full_name} looks sleepy`, { description: `Roll ${matched.roll_number}` });
+          }
+        }
+        if (!active) return;
+        setOverlay({ faces, width: video.videoWidth, height: video.videoHeight });
+        if (outcomes.size > 0) applyRecognition(outcomes, settings.auto_mark_present, now, lateFrom);
+        if (borderline.length > 0) queueReviews(borderline);
+      } catch (err) {
+        if (active) console.log("Face detection failed", err);
+      }
+      if (!active) return;
+      timer = window.setTimeout(analyseFrame, frameRate.next(performance.now() - started));
+      setDetectionFps(frameRate.framesPerSecond);
+    };
+    timer = window.setTimeout(analyseFrame, 0);
+
+    return () => {
+      active = false;
+      window.clearTimeout(timer);
+      tracker.reset();
+      liveness.reset();
+      setOverlay({ faces: [], width: 0, height: 0 });
+      setDetectionFps(null);
+    };
+  }, [cameraOn, detector, matcher, students, settings, lateFrom, applyRecognition, queueReviews, logUnknownFace, markSleepy]);
+
+  const updateStatus = useCallback(
+    (studentId: string, status: AttendanceStatus) => {
+      // A manual choice always wins over later recognition results. Marking someone late
+      // during today's session records now as their arrival time.
+      const arrivedNow = selectedDate === todayISO() ? new Date().toISOString() : null;
+      setAttendance((prev) =>
+        prev.map((a) =>
+          a.studentId === studentId
+            ? {
+                ...a,
+                status,
+                markedBy: "manual" as const,
+                arrivedAt: status === "late" ? (a.arrivedAt ?? arrivedNow) : null,
+              }
+            : a
+        )
+      );
+    },
+    [selectedDate]
+  );
+
+  // A verified ID card counts like a manual mark: present, or late after the threshold
+  const handleCardScan = useCallback(
+    async (payload: string) => {
+      if (!isCardPayload(payload)) {
+        toast.error("That QR code is not a student ID card");
+        return;
+      }
+      let studentId: string | null;
+      try {
+        studentId = await verifyStudentCard(payload);
+      } catch {
+        toast.error("Could not check the ID card. Are you online?");
+        return;
+      }
+      if (!studentId) {
+        toast.error("This ID card is not valid for your school");
+        return;
+      }
+      const entry = attendanceRef.current.find((a) => a.studentId === studentId);
+      if (!entry) {
+        toast.warning("That student is not in this class");
+        return;
+      }
+      if (entry.status === "present" || entry.status === "late") {
+        toast.info(`${entry.studentName} is already marked ${STATUS_LABELS[entry.status].toLowerCase()}`);
+        return;
+      }
+      const status = lateFrom !== null && Date.now() > lateFrom ? "late" : "present";
+      updateStatus(studentId, status);
+      toast.success(`${entry.studentName} marked ${STATUS_LABELS[status].toLowerCase()}`, {
+        description: `Roll ${entry.rollNumber} · ID card`,
+      });
+    },
+    [lateFrom, updateStatus]
+  );
+
+  // Scan loop: look for ID card QR codes in the same camera feed used for recognition
+  useEffect(() => {
+    if (!cameraOn || !scanCards) return;
+    const canvas = document.createElement("canvas");
+    const lastScanned = new Map<string, number>();
+    let active = true;
+    let timer: number | undefined;
+
+    const scan = async () => {
+      const video = webcamRef.current?.video;
+      if (video && video.readyState >= 2) {
+        const payload = scanQrCode(video, canvas);
+        const now = Date.now();
+        if (payload && now - (lastScanned.get(payload) ?? 0) > CARD_REPEAT_MS) {
+          lastScanned.set(payload, now);
+          await handleCardScan(payload);
+        }
+      }
+      if (active) timer = window.setTimeout(scan, CARD_SCAN_INTERVAL_MS);
+    };
+    timer = window.setTimeout(scan, 0);
+
+    return () => {
+      active = false;
+      window.clearTimeout(timer);
+    };
+  }, [cameraOn, scanCards, handleCardScan]);
+
+  const resolveReview = async (review: PendingReview, decision: "confirmed" | "rejected") => {
+    if (decision === "confirmed") updateStatus(review.studentId, "present");
+    reviewedRef.current.add(review.studentId);
+    setReviews((prev) => prev.filter((r) => r.studentId !== review.studentId));
+
+    if (!user || !principalId) return;
+    const { error } = await supabase.from("match_reviews").insert({
+      principal_id: principalId,
+      student_id: review.studentId,
+      reviewed_by: user.id,
+      decision,
+      distance: review.distance,
+      threshold: settings.match_threshold,
+      date: selectedDate,
+      period: parseInt(selectedPeriod),
+    });
+    if (error) console.log("Could not record match review", error);
   };
 
   const markAllPresent = () => {
-    setAttendance((prev) => prev.map((a) => ({ ...a, status: "present" as const })));
+    setAttendance((prev) =>
+      prev.map((a) =>
+        a.onLeave && a.status === "excused"
+          ? a
+          : { ...a, status: "present" as const, markedBy: "manual" as const, arrivedAt: null }
+      )
+    );
   };
 
   const saveAttendance = async () => {
     if (!user) return;
+    if (reviews.length > 0) {
+      toast.error(`Confirm or reject ${reviews.length} pending match${reviews.length > 1 ? "es" : ""} before saving`);
+      return;
+    }
+    if (schoolDay.closed) {
+      toast.error(`School is closed on this day (${schoolDay.reason}). No attendance recorded.`);
+      return;
+    }
     setSaving(true);
 
     const period = parseInt(selectedPeriod);
-    if (period === 8 && period8Free) {
-      toast.info("Period 8 is marked as free. No attendance recorded.");
+    if (freePeriods.includes(period)) {
+      toast.info(`Period ${period} is marked as free. No attendance recorded.`);
       setSaving(false);
       return;
     }
 
-    const today = new Date().toISOString().split("T")[0];
-    const records = attendance.map((a) => ({
+    // Students without a saved record are inserted; saved ones are only rewritten when their
+    // status changed, keeping the original marker and recording who edited it and when.
+    const records = attendance
+      .filter((a) => !savedRecords[a.studentId])
+      .map((a) => ({
+        student_id: a.studentId,
+        date: selectedDate,
+        period,
+        status: a.status,
+        arrived_at: a.status === "late" ? (a.arrivedAt ?? null) : null,
+        verified_by: user.id,
+        class_id: selectedClass || null,
+      }));
+    const changed = attendance.filter(
+      (a) => savedRecords[a.studentId] && savedRecords[a.studentId].status !== a.status
+    );
+    const editedAt = new Date().toISOString();
+    const edits = changed.map((a) => ({
       student_id: a.studentId,
-      date: today,
+      date: selectedDate,
       period,
       status: a.status,
-      verified_by: user.id,
+      arrived_at: a.status === "late" ? (a.arrivedAt ?? null) : null,
+      verified_by: savedRecords[a.studentId].verifiedBy,
+      updated_by: user.id,
+      updated_at: editedAt,
+      // The upsert is checked against the insert policy too, which needs the class
+      class_id: selectedClass || null,
     }));
 
-    const { error } = await supabase.from("attendance_records").insert(records);
+    if (records.length === 0 && edits.length === 0) {
+      toast.info("No changes to save");
+      setSaving(false);
+      return;
+    }
+
+    if (restrictToAssignments && !mySlots.some((a) => a.class_id === selectedClass && a.period === period)) {
+      toast.error("You are not assigned to this class and period");
+      setSaving(false);
+      return;
+    }
+
+    // Corrections to saved rows are always allowed (they are logged); new attendance must be
+    // taken while the period runs or within the grace window after it
+    if (records.length > 0 && outsideWindow && !overrideWindow) {
+      toast.error(
+        isPrincipal
+          ? "This period is outside its time window. Turn on the override to save anyway."
+          : "This period is outside its time window. Ask a principal to record it."
+      );
+      setSaving(false);
+      return;
+    }
+
+    const changeSummary = changed
+      .map((a) => `${a.studentName}: ${savedRecords[a.studentId].status} → ${a.status}`)
+      .join(", ");
+    const markSaved = () =>
+      setSavedRecords((prev) => {
+        const next = { ...prev };
+        for (const r of [...records, ...edits]) {
+          next[r.student_id] = { status: r.status, verifiedBy: r.verified_by, arrivedAt: r.arrived_at };
+        }
+        return next;
+      });
+
+    const queueOffline = async () => {
+      try {
+        await queueAttendanceBatch(user.id, selectedDate, period, records, edits);
+        markSaved();
+        toast.info(`Offline — Period ${period} attendance saved on this device and will sync automatically`);
+      } catch {
+        toast.error("Could not save attendance offline");
+      }
+    };
+
+    if (!navigator.onLine) {
+      await queueOffline();
+      setSaving(false);
+      return;
+    }
+
+    const { error } = await sendAttendance({ records, edits });
     if (error) {
-      if (error.message.includes("duplicate")) {
-        toast.error("Attendance already recorded for this period today");
+      if (isNetworkError(error)) {
+        await queueOffline();
       } else {
         toast.error(error.message);
       }
     } else {
-      toast.success(`Attendance saved for Period ${period}!`);
+      markSaved();
+      if (edits.length > 0) {
+        toast.success(`Period ${period} updated — ${edits.length} change${edits.length > 1 ? "s" : ""}`, {
+          description: changeSummary,
+        });
+      } else {
+        toast.success(`Attendance saved for Period ${period}!`);
+      }
     }
     setSaving(false);
   };
 
-  const maxPeriods = period8Free ? 7 : 8;
+  const isEditing = Object.keys(savedRecords).length > 0;
 
-  const statusIcon = (status: string) => {
-    switch (status) {
-      case "present":
-        return <CheckCircle className="h-5 w-5 text-accent" />;
-      case "sleepy":
-        return <AlertTriangle className="h-5 w-5 text-warning" />;
-      case "absent":
-        return <XCircle className="h-5 w-5 text-destructive" />;
-    }
-  };
+  const schoolDay = dayStatus(calendarEvents, settings.weekly_off_days, selectedDate);
+
+  const rollNumbers = useMemo(() => attendance.map((a) => a.rollNumber), [attendance]);
+  const { focusedIndex, setFocusedIndex, typedRoll } = useRollCallKeyboard({
+    enabled: keyboardMode,
+    rollNumbers,
+    onStatus: (index, status) => {
+      const entry = attendanceRef.current[index];
+      if (entry) updateStatus(entry.studentId, status);
+    },
+    onSave: () => {
+      if (!saving && !schoolDay.closed) saveAttendance();
+    },
+  });
+  const rowRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  useEffect(() => {
+    if (keyboardMode) rowRefs.current[focusedIndex]?.scrollIntoView({ block: "nearest" });
+  }, [keyboardMode, focusedIndex]);
+
+  const currentClass = classes.find((c) => c.id === selectedClass);
+  const selectedSlot = periods.find((p) => p.period.toString() === selectedPeriod);
+  const timing = selectedSlot
+    ? periodTiming(selectedSlot, selectedDate, now, settings.period_grace_minutes)
+    : undefined;
+  const outsideWindow = timing === "upcoming" || timing === "closed";
+  const timingNote =
+    !selectedSlot || !timing
+      ? null
+      : timing === "upcoming"
+        ? `${selectedSlot.label} hasn't started yet (starts ${formatTime(selectedSlot.start_time)}).`
+        : timing === "closed"
+          ? `${selectedSlot.label} ended at ${formatTime(selectedSlot.end_time)} and is past its ${settings.period_grace_minutes}-min grace window. New attendance needs a principal.`
+          : timing === "grace"
+            ? `${selectedSlot.label} ended at ${formatTime(selectedSlot.end_time)}. Saving closes ${settings.period_grace_minutes} min after.`
+            : null;
+
+  const selectablePeriods = availablePeriods.filter((p) => !freePeriods.includes(p.period));
+  const subjectFor = (period: number) =>
+    mySlots.find((a) => a.class_id === selectedClass && a.period === period)?.subject;
+  const optionalPeriods = periods.filter((p) => p.is_optional);
+
+  const recognitionLabel = !faceApiLoaded || !detector
+    ? "Manual marking mode"
+    : matcherLoading
+      ? "Preparing face matcher..."
+      : matcher
+        ? `Facial recognition running (${matcher.labeledDescriptors.length} enrolled${
+            detectionFps ? ` · ${detectionFps.toFixed(1)} fps` : ""
+          })`
+        : "No enrolled photos — manual marking mode";
 
   return (
     <DashboardLayout>
@@ -164,26 +847,96 @@ export default function LiveAttendance() {
               <CardTitle className="text-lg">Settings</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
+              {classes.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Class</Label>
+                  <Select value={selectedClass} onValueChange={setSelectedClass}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select class" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availableClasses.map((c) => (
+                        <SelectItem key={c.id} value={c.id}>
+                          {classLabel(c)} ({c.academic_year})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {restrictToAssignments && availableClasses.length === 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      You have no classes assigned on {WEEKDAYS[weekdayOf(selectedDate)]}.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label>Date</Label>
+                <Input
+                  type="date"
+                  value={selectedDate}
+                  max={todayISO()}
+                  onChange={(e) => e.target.value && setSelectedDate(e.target.value)}
+                />
+                {schoolDay.closed ? (
+                  <p className="text-xs text-destructive">
+                    <XCircle className="mr-1 inline h-3 w-3" />
+                    Closed — {schoolDay.reason}. Attendance can't be saved.
+                  </p>
+                ) : (
+                  schoolDay.events.length > 0 && (
+                    <p className="text-xs text-muted-foreground">{schoolDay.events.map((e) => e.title).join(" · ")}</p>
+                  )
+                )}
+              </div>
+
               <div className="space-y-2">
                 <Label>Period</Label>
-                <Select value={selectedPeriod} onValueChange={setSelectedPeriod}>
+                <Select
+                  value={selectedPeriod}
+                  onValueChange={(value) => {
+                    periodChosenRef.current = true;
+                    setSelectedPeriod(value);
+                  }}
+                >
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {Array.from({ length: maxPeriods }, (_, i) => i + 1).map((p) => (
-                      <SelectItem key={p} value={p.toString()}>
-                        {periodTimes[p].label}
+                    {selectablePeriods.map((p) => (
+                      <SelectItem key={p.period} value={p.period.toString()}>
+                        {periodOptionLabel(p)}
+                        {subjectFor(p.period) && ` · ${subjectFor(p.period)}`}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
+                {timingNote && (
+                  <p className={`text-xs ${outsideWindow ? "text-warning" : "text-muted-foreground"}`}>
+                    {outsideWindow && <AlertTriangle className="mr-1 inline h-3 w-3" />}
+                    {timingNote}
+                  </p>
+                )}
               </div>
 
-              <div className="flex items-center justify-between">
-                <Label>Period 8 is free</Label>
-                <Switch checked={period8Free} onCheckedChange={setPeriod8Free} />
-              </div>
+              {outsideWindow && isPrincipal && (
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="overrideWindow">Override time window</Label>
+                  <Switch id="overrideWindow" checked={overrideWindow} onCheckedChange={setOverrideWindow} />
+                </div>
+              )}
+
+              {optionalPeriods.map((p) => (
+                <div key={p.period} className="flex items-center justify-between">
+                  <Label>{p.label} is free</Label>
+                  <Switch
+                    checked={freePeriods.includes(p.period)}
+                    onCheckedChange={(free) =>
+                      setFreePeriods((prev) => (free ? [...prev, p.period] : prev.filter((n) => n !== p.period)))
+                    }
+                  />
+                </div>
+              ))}
 
               <div className="space-y-2">
                 <Button
@@ -206,8 +959,8 @@ export default function LiveAttendance() {
                   Mark All Present
                 </Button>
 
-                <Button className="w-full" onClick={saveAttendance} disabled={saving}>
-                  {saving ? "Saving..." : "Save Attendance"}
+                <Button className="w-full" onClick={saveAttendance} disabled={saving || schoolDay.closed}>
+                  {saving ? "Saving..." : isEditing ? "Save Changes" : "Save Attendance"}
                 </Button>
               </div>
 
@@ -225,7 +978,7 @@ export default function LiveAttendance() {
             {cameraOn && (
               <Card>
                 <CardContent className="p-4">
-                  <div className="overflow-hidden rounded-lg">
+                  <div className="relative overflow-hidden rounded-lg">
                     <Webcam
                       ref={webcamRef}
                       audio={false}
@@ -233,31 +986,70 @@ export default function LiveAttendance() {
                       className="w-full"
                       videoConstraints={{ facingMode: "user", width: 640, height: 480 }}
                     />
+                    <FaceOverlay faces={overlay.faces} sourceWidth={overlay.width} sourceHeight={overlay.height} />
                   </div>
                   <p className="mt-2 text-center text-sm text-muted-foreground">
-                    Camera active — {faceApiLoaded ? "Facial recognition running" : "Manual marking mode"}
+                    Camera active — {recognitionLabel}
                   </p>
+                  <div className="mt-3 flex items-center justify-center gap-2">
+                    <Switch id="scan-cards" checked={scanCards} onCheckedChange={setScanCards} />
+                    <Label htmlFor="scan-cards" className="text-sm">
+                      Scan ID cards
+                    </Label>
+                  </div>
+                  {scanCards && (
+                    <p className="mt-1 text-center text-xs text-muted-foreground">
+                      Hold a student's ID card up to the camera to mark them
+                    </p>
+                  )}
                 </CardContent>
               </Card>
             )}
 
+            <MatchReviewPanel
+              reviews={reviews}
+              threshold={settings.match_threshold}
+              onConfirm={(review) => resolveReview(review, "confirmed")}
+              onReject={(review) => resolveReview(review, "rejected")}
+            />
+
             <Card>
-              <CardHeader>
-                <CardTitle className="text-lg">
-                  Student Attendance — Period {selectedPeriod}
-                </CardTitle>
+              <CardHeader className="space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <CardTitle className="text-lg">
+                    Student Attendance — {currentClass ? `${classLabel(currentClass)} · ` : ""}Period {selectedPeriod}
+                  </CardTitle>
+                  <div className="flex items-center gap-2">
+                    <Switch id="keyboard-mode" checked={keyboardMode} onCheckedChange={setKeyboardMode} />
+                    <Label htmlFor="keyboard-mode" className="text-sm">
+                      Keyboard mode
+                    </Label>
+                  </div>
+                </div>
+                {keyboardMode && <RollCallShortcuts typedRoll={typedRoll} />}
+                {isEditing && (
+                  <p className="text-sm text-muted-foreground">
+                    Editing saved attendance — changes are recorded with your name and the time
+                  </p>
+                )}
               </CardHeader>
               <CardContent>
                 {attendance.length === 0 ? (
                   <p className="py-8 text-center text-muted-foreground">No students found. Add students first.</p>
                 ) : (
                   <div className="space-y-2">
-                    {attendance.map((entry) => {
+                    {attendance.map((entry, index) => {
                       const student = students.find((s) => s.id === entry.studentId);
+                      const saved = savedRecords[entry.studentId];
+                      const focused = keyboardMode && index === focusedIndex;
                       return (
                         <div
                           key={entry.studentId}
-                          className="flex items-center gap-3 rounded-lg border p-3"
+                          ref={(el) => (rowRefs.current[index] = el)}
+                          onClick={() => keyboardMode && setFocusedIndex(index)}
+                          className={`flex items-center gap-3 rounded-lg border p-3 ${
+                            focused ? "bg-primary/5 ring-2 ring-primary ring-offset-2 ring-offset-background" : ""
+                          }`}
                         >
                           {student?.photo_url ? (
                             <img
@@ -272,42 +1064,44 @@ export default function LiveAttendance() {
                           )}
                           <div className="flex-1">
                             <p className="text-sm font-medium">{entry.studentName}</p>
-                            <p className="text-xs text-muted-foreground">Roll: {entry.rollNumber}</p>
+                            <p className="text-xs text-muted-foreground">
+                              Roll: {entry.rollNumber}
+                              {entry.markedBy === "auto" && " · Recognised"}
+                              {entry.arrivedAt &&
+                                ` · arrived ${new Date(entry.arrivedAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}`}
+                              {saved && saved.status !== entry.status && ` · was ${STATUS_LABELS[saved.status].toLowerCase()}`}
+                            </p>
+                            {entry.onLeave && (
+                              <span className="mt-1 inline-flex items-center rounded-full border border-primary/20 bg-primary/10 px-2 py-0.5 text-xs font-semibold text-primary">
+                                On approved leave
+                              </span>
+                            )}
+                            {entry.sleepy && entry.status !== "sleepy" && (
+                              <span className="mt-1 inline-flex items-center rounded-full border border-warning/20 bg-warning/10 px-2 py-0.5 text-xs font-semibold text-warning">
+                                Looked sleepy
+                              </span>
+                            )}
+                            {entry.liveness === "needs_review" && entry.markedBy !== "manual" && entry.status === "absent" && (
+                              <span className="mt-1 inline-flex items-center rounded-full border border-warning/20 bg-warning/10 px-2 py-0.5 text-xs font-semibold text-warning">
+                                Needs review — liveness not confirmed
+                              </span>
+                            )}
                           </div>
-                          <div className="flex gap-1">
-                            <button
-                              onClick={() => updateStatus(entry.studentId, "present")}
-                              className={`rounded-lg p-2 transition-colors ${
-                                entry.status === "present"
-                                  ? "bg-accent/10 ring-2 ring-accent"
-                                  : "hover:bg-muted"
-                              }`}
-                              title="Present"
-                            >
-                              <CheckCircle className={`h-5 w-5 ${entry.status === "present" ? "text-accent" : "text-muted-foreground"}`} />
-                            </button>
-                            <button
-                              onClick={() => updateStatus(entry.studentId, "sleepy")}
-                              className={`rounded-lg p-2 transition-colors ${
-                                entry.status === "sleepy"
-                                  ? "bg-warning/10 ring-2 ring-warning"
-                                  : "hover:bg-muted"
-                              }`}
-                              title="Sleepy"
-                            >
-                              <AlertTriangle className={`h-5 w-5 ${entry.status === "sleepy" ? "text-warning" : "text-muted-foreground"}`} />
-                            </button>
-                            <button
-                              onClick={() => updateStatus(entry.studentId, "absent")}
-                              className={`rounded-lg p-2 transition-colors ${
-                                entry.status === "absent"
-                                  ? "bg-destructive/10 ring-2 ring-destructive"
-                                  : "hover:bg-muted"
-                              }`}
-                              title="Absent"
-                            >
-                              <XCircle className={`h-5 w-5 ${entry.status === "absent" ? "text-destructive" : "text-muted-foreground"}`} />
-                            </button>
+                          <div className="flex flex-wrap justify-end gap-1">
+                            {ATTENDANCE_STATUSES.map((status) => {
+                              const { icon: Icon, active, iconActive } = statusButtons[status];
+                              const selected = entry.status === status;
+                              return (
+                                <button
+                                  key={status}
+                                  onClick={() => updateStatus(entry.studentId, status)}
+                                  className={`rounded-lg p-2 transition-colors ${selected ? active : "hover:bg-muted"}`}
+                                  title={STATUS_LABELS[status]}
+                                >
+                                  <Icon className={`h-5 w-5 ${selected ? iconActive : "text-muted-foreground"}`} />
+                                </button>
+                              );
+                            })}
                           </div>
                         </div>
                       );
@@ -0,0 +1,385 @@
+import { Fragment, useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useClasses } from "@/hooks/useClasses";
+import { useTimetable } from "@/hooks/useTimetable";
+import { useAcademicCalendar } from "@/hooks/useAcademicCalendar";
+import { useSchoolSettings } from "@/hooks/useSchoolSettings";
+import { classLabel } from "@/lib/classes";
+import { dayStatus } from "@/lib/academicCalendar";
+import {
+  ATTENDANCE_STATUSES,
+  STATUS_BADGE_CLASSES,
+  STATUS_LABELS,
+  STATUS_SYMBOLS,
+  type AttendanceStatus,
+} from "@/lib/attendanceStatus";
+import {
+  countsAsPresent,
+  daySymbol,
+  fetchMonthRecords,
+  groupRegisterRecords,
+  monthDays,
+  registerKey,
+  registerTotals,
+  setRegisterCell,
+  type RegisterRecord,
+} from "@/lib/monthlyRegister";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+interface RegisterStudent {
+  id: string;
+  full_name: string;
+  roll_number: string;
+  class_id: string | null;
+}
+
+const ALL_STUDENTS = "all";
+
+const WEEKDAY_INITIALS = ["S", "M", "T", "W", "T", "F", "S"];
+
+const dayNumber = (date: string) => Number(date.slice(8));
+
+const Mark = ({ status, children }: { status: AttendanceStatus; children: React.ReactNode }) => (
+  <span className={cn("inline-block min-w-6 rounded border px-1 text-[11px] font-semibold", STATUS_BADGE_CLASSES[status])}>
+    {children}
+  </span>
+);
+
+/**
+ * The paper monthly register on screen: students down the side, days across, one mark per
+ * day that expands into the day's periods. Principals correct marks from the period cells.
+ */
+export default function MonthlyRegister() {
+  const { user, profile } = useAuth();
+  const { classes, loading: classesLoading } = useClasses();
+  const { periods } = useTimetable();
+  const { events } = useAcademicCalendar();
+  const { settings } = useSchoolSettings();
+  const [month, setMonth] = useState(new Date().toISOString().slice(0, 7));
+  const [classFilter, setClassFilter] = useState<string>(ALL_STUDENTS);
+  const [students, setStudents] = useState<RegisterStudent[]>([]);
+  const [records, setRecords] = useState<RegisterRecord[]>([]);
+  const [expandedDays, setExpandedDays] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const isPrincipal = profile?.role === "principal";
+
+  // Registers are kept per class; start on the first one once classes have loaded
+  useEffect(() => {
+    if (classes.length > 0) setClassFilter((current) => (current === ALL_STUDENTS ? classes[0].id : current));
+  }, [classes]);
+
+  const loadRegister = useCallback(async () => {
+    if (!user || !month || classesLoading) return;
+    setLoading(true);
+    let query = supabase.from("students").select("id, full_name, roll_number, class_id").order("roll_number");
+    if (classFilter !== ALL_STUDENTS) query = query.eq("class_id", classFilter);
+    const { data } = await query;
+    const loaded = data || [];
+    setStudents(loaded);
+    try {
+      setRecords(await fetchMonthRecords(month, loaded.map((s) => s.id)));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not load the register");
+    }
+    setLoading(false);
+  }, [user, month, classFilter, classesLoading]);
+
+  useEffect(() => {
+    loadRegister();
+  }, [loadRegister]);
+
+  useEffect(() => {
+    setExpandedDays([]);
+  }, [month]);
+
+  const days = useMemo(() => (month ? monthDays(month) : []), [month]);
+  const closedDays = useMemo(
+    () => new Map(days.map((d) => [d, dayStatus(events, settings.weekly_off_days, d)])),
+    [days, events, settings.weekly_off_days]
+  );
+  // Marks left on closed days stay visible but don't count towards the totals
+  const schoolDays = useMemo(() => days.filter((d) => !closedDays.get(d)?.closed), [days, closedDays]);
+  const grouped = useMemo(() => groupRegisterRecords(records), [records]);
+
+  // Timetable periods, plus any marked under a period since removed from the timetable
+  const periodNumbers = useMemo(
+    () => [...new Set([...periods.map((p) => p.period), ...records.map((r) => r.period)])].sort((a, b) => a - b),
+    [periods, records]
+  );
+
+  const recordsFor = (studentId: string, date: string) => grouped.get(registerKey(studentId, date)) ?? [];
+
+  const toggleDay = (date: string) => {
+    if (periodNumbers.length === 0) return;
+    setExpandedDays((prev) => (prev.includes(date) ? prev.filter((d) => d !== date) : [...prev, date]));
+  };
+
+  const handleEdit = async (student: RegisterStudent, date: string, period: number, status: AttendanceStatus) => {
+    if (!user) return;
+    const existing = recordsFor(student.id, date).find((r) => r.period === period);
+    if (existing?.status === status) return;
+    try {
+      await setRegisterCell(existing, {
+        studentId: student.id,
+        classId: student.class_id,
+        date,
+        period,
+        status,
+        userId: user.id,
+      });
+      toast.success(`${student.full_name}: ${STATUS_LABELS[status]} for period ${period} on ${date}`);
+      setRecords(await fetchMonthRecords(month, students.map((s) => s.id)));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not update attendance");
+    }
+  };
+
+  const presentOn = (date: string, period?: number) =>
+    students.filter((s) =>
+      recordsFor(s.id, date).some((r) => (period === undefined || r.period === period) && countsAsPresent(r.status))
+    ).length;
+
+  const cellClass = (closed: boolean) => cn("border-l px-1 py-1 text-center", closed && "bg-muted text-muted-foreground");
+
+  const periodCell = (student: RegisterStudent, date: string, period: number, closed: boolean) => {
+    const record = recordsFor(student.id, date).find((r) => r.period === period);
+    const mark = record ? (
+      <Mark status={record.status}>{STATUS_SYMBOLS[record.status]}</Mark>
+    ) : (
+      <span className="text-muted-foreground">·</span>
+    );
+    if (!isPrincipal || closed) {
+      return (
+        <td key={`${date}-${period}`} className={cellClass(closed)}>
+          {mark}
+        </td>
+      );
+    }
+    return (
+      <td key={`${date}-${period}`} className={cellClass(closed)}>
+        <DropdownMenu>
+          <DropdownMenuTrigger className="rounded px-0.5 hover:bg-muted focus:outline-none focus-visible:ring-2 focus-visible:ring-ring">
+            {mark}
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+              {student.full_name} · {date} · Period {period}
+            </DropdownMenuLabel>
+            {ATTENDANCE_STATUSES.map((status) => (
+              <DropdownMenuItem key={status} onSelect={() => handleEdit(student, date, period, status)}>
+                <span className="w-8 font-mono text-xs font-semibold">{STATUS_SYMBOLS[status]}</span>
+                {STATUS_LABELS[status]}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </td>
+    );
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Monthly Register</h1>
+          <p className="text-muted-foreground">
+            Attendance for the month by student and day. Click a day to see its periods
+            {isPrincipal ? ", then a mark to correct it" : ""}.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-4">
+          <div className="space-y-2">
+            <Label>Month</Label>
+            <Input type="month" value={month} onChange={(e) => setMonth(e.target.value)} className="w-48" />
+          </div>
+          {classes.length > 0 && (
+            <div className="space-y-2">
+              <Label>Class</Label>
+              <Select value={classFilter} onValueChange={setClassFilter}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_STUDENTS}>All Students</SelectItem>
+                  {classes.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {classLabel(c)} ({c.academic_year})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          {ATTENDANCE_STATUSES.map((status) => (
+            <span key={status}>
+              <span className="font-semibold text-foreground">{STATUS_SYMBOLS[status]}</span> {STATUS_LABELS[status]}
+            </span>
+          ))}
+          <span>
+            <span className="font-semibold text-foreground">5/6</span> periods attended
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block h-3 w-3 rounded-sm bg-muted" /> School closed
+          </span>
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            {loading ? (
+              <p className="py-8 text-center text-muted-foreground">Loading...</p>
+            ) : students.length === 0 ? (
+              <p className="py-8 text-center text-muted-foreground">No students in this class</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full border-collapse text-xs">
+                  <thead>
+                    <tr className="border-b">
+                      <th rowSpan={2} className="sticky left-0 z-10 bg-card px-3 py-2 text-left font-medium text-muted-foreground">
+                        Student
+                      </th>
+                      {days.map((date) => {
+                        const status = closedDays.get(date);
+                        const expanded = expandedDays.includes(date);
+                        return (
+                          <th
+                            key={date}
+                            rowSpan={expanded ? 1 : 2}
+                            colSpan={expanded ? periodNumbers.length : 1}
+                            title={status?.closed ? status.reason : undefined}
+                            className={cn(
+                              "border-l px-1 py-1 font-medium",
+                              status?.closed ? "bg-muted text-muted-foreground" : "text-foreground"
+                            )}
+                          >
+                            <button
+                              type="button"
+                              className="flex w-full flex-col items-center rounded hover:bg-muted/60"
+                              onClick={() => toggleDay(date)}
+                            >
+                              <span>{dayNumber(date)}</span>
+                              <span className="text-[10px] font-normal text-muted-foreground">
+                                {WEEKDAY_INITIALS[new Date(`${date}T00:00:00Z`).getUTCDay()]}
+                              </span>
+                            </button>
+                          </th>
+                        );
+                      })}
+                      <th rowSpan={2} className="border-l px-2 py-2 font-medium">P</th>
+                      <th rowSpan={2} className="border-l px-2 py-2 font-medium">A</th>
+                      <th rowSpan={2} className="border-l px-2 py-2 font-medium">%</th>
+                    </tr>
+                    <tr className="border-b">
+                      {days
+                        .filter((date) => expandedDays.includes(date))
+                        .map((date) => (
+                          <Fragment key={date}>
+                            {periodNumbers.map((period) => (
+                              <th
+                                key={period}
+                                className={cn(
+                                  "border-l px-1 py-1 text-[10px] font-normal text-muted-foreground",
+                                  closedDays.get(date)?.closed && "bg-muted"
+                                )}
+                              >
+                                P{period}
+                              </th>
+                            ))}
+                          </Fragment>
+                        ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {students.map((student) => {
+                      const monthStatuses = schoolDays.flatMap((d) => recordsFor(student.id, d).map((r) => r.status));
+                      const totals = registerTotals(monthStatuses);
+                      return (
+                        <tr key={student.id} className="border-b hover:bg-muted/30">
+                          <td className="sticky left-0 z-10 whitespace-nowrap bg-card px-3 py-1">
+                            <span className="mr-2 font-medium">{student.roll_number}</span>
+                            {student.full_name}
+                          </td>
+                          {days.map((date) => {
+                            const closed = !!closedDays.get(date)?.closed;
+                            if (expandedDays.includes(date)) {
+                              return (
+                                <Fragment key={date}>
+                                  {periodNumbers.map((period) => periodCell(student, date, period, closed))}
+                                </Fragment>
+                              );
+                            }
+                            const statuses = recordsFor(student.id, date).map((r) => r.status);
+                            const symbol = daySymbol(statuses);
+                            const uniform = statuses.length > 0 && statuses.every((s) => s === statuses[0]);
+                            return (
+                              <td key={date} className={cellClass(closed)}>
+                                {symbol && (uniform ? <Mark status={statuses[0]}>{symbol}</Mark> : symbol)}
+                              </td>
+                            );
+                          })}
+                          <td className="border-l px-2 py-1 text-center tabular-nums">{totals.present}</td>
+                          <td className="border-l px-2 py-1 text-center tabular-nums">{totals.absent}</td>
+                          <td
+                            className={cn(
+                              "border-l px-2 py-1 text-center font-medium tabular-nums",
+                              totals.percentage !== null && totals.percentage < 75 && "text-destructive"
+                            )}
+                          >
+                            {totals.percentage === null ? "—" : Math.round(totals.percentage)}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                  <tfoot>
+                    <tr className="border-t font-medium">
+                      <td className="sticky left-0 z-10 bg-card px-3 py-1 text-muted-foreground">Present</td>
+                      {days.map((date) => {
+                        const closed = !!closedDays.get(date)?.closed;
+                        if (expandedDays.includes(date)) {
+                          return (
+                            <Fragment key={date}>
+                              {periodNumbers.map((period) => (
+                                <td key={period} className={cellClass(closed)}>
+                                  {presentOn(date, period) || ""}
+                                </td>
+                              ))}
+                            </Fragment>
+                          );
+                        }
+                        return (
+                          <td key={date} className={cellClass(closed)}>
+                            {presentOn(date) || ""}
+                          </td>
+                        );
+                      })}
+                      <td colSpan={3} className="border-l" />
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
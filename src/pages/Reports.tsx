@@ -0,0 +1,309 @@
+import { useEffect, useMemo, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useTimetable } from "@/hooks/useTimetable";
+import { useClasses } from "@/hooks/useClasses";
+import { classLabel } from "@/lib/classes";
+import { ATTENDANCE_STATUSES, STATUS_LABELS } from "@/lib/attendanceStatus";
+import {
+  fetchAttendanceReport,
+  filterReportRows,
+  sortReportRows,
+  type AttendanceReportRow,
+  type ReportSortKey,
+} from "@/lib/attendanceReport";
+import {
+  downloadCsv,
+  downloadRegisterPdf,
+  downloadXlsx,
+  exportFileName,
+  type ExportColumn,
+  type ExportFormat,
+} from "@/lib/attendanceExport";
+import { useSchoolName } from "@/hooks/useSchoolName";
+import ExportMenu from "@/components/ExportMenu";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+
+const THRESHOLDS = [90, 75, 50];
+
+// Below this a student's percentage is highlighted.
+const LOW_ATTENDANCE_PERCENT = 75;
+
+const firstOfMonth = () => {
+  const today = new Date().toISOString().split("T")[0];
+  return `${today.slice(0, 8)}01`;
+};
+
+export default function Reports() {
+  const { profile } = useAuth();
+  const { periods } = useTimetable();
+  const { classes } = useClasses();
+  const [startDate, setStartDate] = useState(firstOfMonth);
+  const [endDate, setEndDate] = useState(new Date().toISOString().split("T")[0]);
+  const [classFilter, setClassFilter] = useState("all");
+  const [excludedPeriods, setExcludedPeriods] = useState<number[]>([]);
+  const [search, setSearch] = useState("");
+  const [threshold, setThreshold] = useState("all");
+  const [sortKey, setSortKey] = useState<ReportSortKey>("roll_number");
+  const [sortDirection, setSortDirection] = useState<"asc" | "desc">("asc");
+  const [rows, setRows] = useState<AttendanceReportRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const schoolName = useSchoolName();
+
+  const isPrincipal = profile?.role === "principal";
+
+  useEffect(() => {
+    if (!isPrincipal || !startDate || !endDate) return;
+    let cancelled = false;
+    setLoading(true);
+    fetchAttendanceReport({
+      startDate,
+      endDate,
+      classId: classFilter === "all" ? null : classFilter,
+      periods: excludedPeriods.length === 0 ? null : periods.map((p) => p.period).filter((p) => !excludedPeriods.includes(p)),
+    })
+      .then((data) => {
+        if (!cancelled) setRows(data);
+      })
+      .catch((err) => {
+        if (!cancelled) toast.error(err instanceof Error ? err.message : "Could not load the report");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isPrincipal, startDate, endDate, classFilter, excludedPeriods, periods]);
+
+  const visibleRows = useMemo(
+    () =>
+      sortReportRows(
+        filterReportRows(rows, { search, belowPercentage: threshold === "all" ? null : Number(threshold) }),
+        sortKey,
+        sortDirection
+      ),
+    [rows, search, threshold, sortKey, sortDirection]
+  );
+
+  const togglePeriod = (period: number, included: boolean) => {
+    setExcludedPeriods((prev) => (included ? prev.filter((p) => p !== period) : [...prev, period]));
+  };
+
+  const changeSort = (key: ReportSortKey) => {
+    if (key === sortKey) {
+      setSortDirection((d) => (d === "asc" ? "desc" : "asc"));
+      return;
+    }
+    setSortKey(key);
+    // Counts and percentages are most useful highest first
+    setSortDirection(key === "roll_number" || key === "full_name" ? "asc" : "desc");
+  };
+
+  const sortableHead = (key: ReportSortKey, label: string, className?: string) => {
+    const Icon = sortKey !== key ? ArrowUpDown : sortDirection === "asc" ? ArrowUp : ArrowDown;
+    return (
+      <TableHead key={key} className={className}>
+        <button type="button" className="inline-flex items-center gap-1 hover:text-foreground" onClick={() => changeSort(key)}>
+          {label}
+          <Icon className={`h-3 w-3 ${sortKey === key ? "" : "opacity-40"}`} />
+        </button>
+      </TableHead>
+    );
+  };
+
+  if (!isPrincipal) {
+    return (
+      <DashboardLayout>
+        <p className="text-muted-foreground">Only principals can view attendance reports.</p>
+      </DashboardLayout>
+    );
+  }
+
+  const columnCount = ATTENDANCE_STATUSES.length + 4;
+
+  const classNameFor = (classId: string | null) => {
+    const schoolClass = classes.find((c) => c.id === classId);
+    return schoolClass ? classLabel(schoolClass) : null;
+  };
+
+  const exportColumns: ExportColumn<AttendanceReportRow>[] = [
+    { header: "Roll No.", type: "string", value: (r) => r.roll_number },
+    { header: "Student", type: "string", value: (r) => r.full_name, width: 28 },
+    { header: "Class", type: "string", value: (r) => classNameFor(r.class_id), width: 16 },
+    ...ATTENDANCE_STATUSES.map(
+      (status): ExportColumn<AttendanceReportRow> => ({ header: STATUS_LABELS[status], type: "number", value: (r) => r[status] })
+    ),
+    { header: "Sessions", type: "number", value: (r) => r.sessions },
+    { header: "Attendance", type: "percent", value: (r) => r.percentage, width: 12 },
+  ];
+
+  const handleExport = async (format: ExportFormat) => {
+    const classText = classFilter === "all" ? null : classNameFor(classFilter);
+    const fileName = exportFileName(["attendance-report", startDate, "to", endDate, classText], format);
+    if (format === "csv") {
+      downloadCsv(fileName, exportColumns, visibleRows);
+    } else if (format === "xlsx") {
+      await downloadXlsx(fileName, "Attendance Report", exportColumns, visibleRows);
+    } else {
+      const includedPeriods = periods.filter((p) => !excludedPeriods.includes(p.period)).map((p) => p.period);
+      await downloadRegisterPdf(fileName, {
+        title: "Attendance Report",
+        schoolName,
+        details: [
+          `${startDate} to ${endDate}`,
+          [
+            classText ?? "All classes",
+            excludedPeriods.length === 0 ? "All periods" : `Periods ${includedPeriods.join(", ") || "none"}`,
+          ].join(" · "),
+        ],
+        columns: exportColumns,
+        rows: visibleRows,
+        signatories: profile?.full_name ? [profile.full_name] : [],
+      });
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Attendance Reports</h1>
+            <p className="text-muted-foreground">Per-student totals and attendance percentage over a date range</p>
+          </div>
+          <ExportMenu onExport={handleExport} disabled={loading || visibleRows.length === 0} />
+        </div>
+
+        <div className="flex flex-wrap gap-4">
+          <div className="space-y-2">
+            <Label>From</Label>
+            <Input type="date" value={startDate} max={endDate} onChange={(e) => setStartDate(e.target.value)} className="w-48" />
+          </div>
+          <div className="space-y-2">
+            <Label>To</Label>
+            <Input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} className="w-48" />
+          </div>
+          {classes.length > 0 && (
+            <div className="space-y-2">
+              <Label>Class</Label>
+              <Select value={classFilter} onValueChange={setClassFilter}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Classes</SelectItem>
+                  {classes.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {classLabel(c)} ({c.academic_year})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>Attendance</Label>
+            <Select value={threshold} onValueChange={setThreshold}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Everyone</SelectItem>
+                {THRESHOLDS.map((t) => (
+                  <SelectItem key={t} value={t.toString()}>
+                    Below {t}%
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="report-search">Search</Label>
+            <Input
+              id="report-search"
+              placeholder="Name or roll number"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-56"
+            />
+          </div>
+        </div>
+
+        {periods.length > 0 && (
+          <div className="space-y-2">
+            <Label>Periods</Label>
+            <div className="flex flex-wrap gap-4">
+              {periods.map((p) => (
+                <div key={p.period} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`report-period-${p.period}`}
+                    checked={!excludedPeriods.includes(p.period)}
+                    onCheckedChange={(checked) => togglePeriod(p.period, checked === true)}
+                  />
+                  <Label htmlFor={`report-period-${p.period}`}>Period {p.period}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {sortableHead("roll_number", "Roll No.")}
+                  {sortableHead("full_name", "Student")}
+                  {ATTENDANCE_STATUSES.map((status) => sortableHead(status, STATUS_LABELS[status], "text-right"))}
+                  {sortableHead("sessions", "Sessions", "text-right")}
+                  {sortableHead("percentage", "Attendance", "text-right")}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={columnCount} className="text-center py-8 text-muted-foreground">Loading...</TableCell>
+                  </TableRow>
+                ) : visibleRows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={columnCount} className="text-center py-8 text-muted-foreground">
+                      No students match these filters
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  visibleRows.map((r) => (
+                    <TableRow key={r.student_id}>
+                      <TableCell className="font-medium">{r.roll_number}</TableCell>
+                      <TableCell>{r.full_name}</TableCell>
+                      {ATTENDANCE_STATUSES.map((status) => (
+                        <TableCell key={status} className="text-right tabular-nums">
+                          {r[status] || <span className="text-muted-foreground">0</span>}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right tabular-nums">{r.sessions}</TableCell>
+                      <TableCell
+                        className={`text-right font-medium tabular-nums ${
+                          r.percentage !== null && r.percentage < LOW_ATTENDANCE_PERCENT ? "text-destructive" : ""
+                        }`}
+                      >
+                        {r.percentage === null ? "—" : `${r.percentage}%`}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,262 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useSchoolSettings } from "@/hooks/useSchoolSettings";
+import DashboardLayout from "@/components/DashboardLayout";
+import KioskDevices from "@/components/KioskDevices";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import { DEFAULT_SCHOOL_SETTINGS, saveSchoolSettings, type SchoolSettings } from "@/lib/schoolSettings";
+import type { LivenessMode } from "@/lib/liveness";
+
+const livenessModes: { value: LivenessMode; label: string }[] = [
+  { value: "blink_or_movement", label: "Blink or natural movement" },
+  { value: "blink", label: "Blink only" },
+  { value: "movement", label: "Natural movement only" },
+  { value: "off", label: "Off (not recommended)" },
+];
+
+export default function Settings() {
+  const { profile } = useAuth();
+  const { settings, loading, refresh } = useSchoolSettings();
+  const [form, setForm] = useState<SchoolSettings>(settings);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setForm(settings);
+  }, [settings]);
+
+  const setNumber = (key: keyof SchoolSettings) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm((prev) => ({ ...prev, [key]: parseFloat(e.target.value) }));
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile) return;
+    setSaving(true);
+    const { error } = await saveSchoolSettings(profile.id, form);
+    if (error) toast.error(error.message);
+    else {
+      toast.success("Settings saved");
+      refresh();
+    }
+    setSaving(false);
+  };
+
+  if (profile?.role !== "principal") {
+    return (
+      <DashboardLayout>
+        <p className="text-muted-foreground">Only principals can change school settings.</p>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">School Settings</h1>
+          <p className="text-muted-foreground">Tune how live attendance behaves at your school</p>
+        </div>
+
+        <form onSubmit={handleSave} className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Automatic Marking</CardTitle>
+              <CardDescription>
+                Recognised faces must pass a liveness check before they count as present, so a photo held up to the
+                camera is not enough. Faces that don't pass in time are flagged for the teacher to review.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="autoMark">Auto-mark recognised students present</Label>
+                <Switch
+                  id="autoMark"
+                  checked={form.auto_mark_present}
+                  onCheckedChange={(checked) => setForm((prev) => ({ ...prev, auto_mark_present: checked }))}
+                />
+              </div>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Liveness check</Label>
+                  <Select
+                    value={form.liveness_mode}
+                    onValueChange={(value) => setForm((prev) => ({ ...prev, liveness_mode: value as LivenessMode }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {livenessModes.map((mode) => (
+                        <SelectItem key={mode.value} value={mode.value}>
+                          {mode.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="livenessTimeout">Review after (seconds)</Label>
+                  <Input
+                    id="livenessTimeout"
+                    type="number"
+                    min={2}
+                    step={1}
+                    value={form.liveness_timeout_seconds}
+                    onChange={setNumber("liveness_timeout_seconds")}
+                    required
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Period Timing</CardTitle>
+              <CardDescription>
+                Live attendance opens on the period that is running now. Teachers can take attendance until the grace
+                window after a period ends; after that only a principal can record it.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="graceMinutes">Grace window (minutes)</Label>
+                <Input
+                  id="graceMinutes"
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={form.period_grace_minutes}
+                  onChange={setNumber("period_grace_minutes")}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lateAfter">Late after (minutes)</Label>
+                <Input
+                  id="lateAfter"
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={form.late_after_minutes}
+                  onChange={setNumber("late_after_minutes")}
+                  required
+                />
+                <p className="text-xs text-muted-foreground">
+                  Students recognised this long after the period starts are marked late
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Face Matching</CardTitle>
+              <CardDescription>
+                Faces further than the threshold from every student are unknown. Matches within the review margin below
+                the threshold are sent to the teacher to confirm instead of being marked automatically.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="matchThreshold">Match threshold</Label>
+                <Input
+                  id="matchThreshold"
+                  type="number"
+                  min={0.2}
+                  max={0.8}
+                  step={0.01}
+                  value={form.match_threshold}
+                  onChange={setNumber("match_threshold")}
+                  required
+                />
+                <p className="text-xs text-muted-foreground">
+                  Lower is stricter. Default {DEFAULT_SCHOOL_SETTINGS.match_threshold}
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reviewMargin">Review margin</Label>
+                <Input
+                  id="reviewMargin"
+                  type="number"
+                  min={0}
+                  max={0.3}
+                  step={0.01}
+                  value={form.match_review_margin}
+                  onChange={setNumber("match_review_margin")}
+                  required
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Sleepy Detection</CardTitle>
+              <CardDescription>
+                Students whose eyes stay closed, or whose head droops, for longer than the duration are flagged sleepy.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="sleepyDuration">Duration (seconds)</Label>
+                <Input
+                  id="sleepyDuration"
+                  type="number"
+                  min={1}
+                  step={0.5}
+                  value={form.sleepy_duration_seconds}
+                  onChange={setNumber("sleepy_duration_seconds")}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sleepyEar">Closed-eye ratio</Label>
+                <Input
+                  id="sleepyEar"
+                  type="number"
+                  min={0.05}
+                  max={0.4}
+                  step={0.01}
+                  value={form.sleepy_eye_aspect_ratio}
+                  onChange={setNumber("sleepy_eye_aspect_ratio")}
+                  required
+                />
+                <p className="text-xs text-muted-foreground">
+                  Lower is stricter. Default {DEFAULT_SCHOOL_SETTINGS.sleepy_eye_aspect_ratio}
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sleepyDroop">Head droop ratio</Label>
+                <Input
+                  id="sleepyDroop"
+                  type="number"
+                  min={0.3}
+                  max={1}
+                  step={0.01}
+                  value={form.sleepy_head_droop_ratio}
+                  onChange={setNumber("sleepy_head_droop_ratio")}
+                  required
+                />
+                <p className="text-xs text-muted-foreground">
+                  Higher is stricter. Default {DEFAULT_SCHOOL_SETTINGS.sleepy_head_droop_ratio}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Button type="submit" disabled={saving || loading}>
+            {saving ? "Saving..." : "Save Settings"}
+          </Button>
+        </form>
+
+        <KioskDevices principalId={profile.id} />
+      </div>
+    </DashboardLayout>
+  );
+}
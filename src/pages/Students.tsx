@@ -1,4 +1,5 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import DashboardLayout from "@/components/DashboardLayout";
@@ -8,8 +9,13 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { Plus, Upload, Trash2, User } from "lucide-react";
+import { Plus, Upload, Trash2, User, Images, IdCard } from "lucide-react";
+import StudentPhotoGallery from "@/components/StudentPhotoGallery";
+import { addStudentPhoto, reportEnrollment } from "@/lib/studentPhotos";
+import { useClasses } from "@/hooks/useClasses";
+import { classLabel } from "@/lib/classes";
 
 interface Student {
   id: string;
@@ -17,28 +23,44 @@ interface Student {
   roll_number: string;
   photo_url: string | null;
   principal_id: string;
+  class_id: string | null;
 }
 
+// Select value for students not assigned to any class
+const NO_CLASS = "none";
+
 export default function Students() {
-  const { user, profile } = useAuth();
+  const { profile } = useAuth();
   const [students, setStudents] = useState<Student[]>([]);
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [fullName, setFullName] = useState("");
   const [rollNumber, setRollNumber] = useState("");
   const [photo, setPhoto] = useState<File | null>(null);
+  const [galleryStudent, setGalleryStudent] = useState<Student | null>(null);
+  const { classes } = useClasses();
+  const [classFilter, setClassFilter] = useState("all");
+  const [newClassId, setNewClassId] = useState(NO_CLASS);
 
   const principalId = profile?.role === "principal" ? profile.id : profile?.principal_id;
 
-  const fetchStudents = async () => {
-    const { data } = await supabase.from("students").select("*").order("roll_number");
+  const fetchStudents = useCallback(async () => {
+    let query = supabase.from("students").select("*").order("roll_number");
+    if (classFilter === NO_CLASS) query = query.is("class_id", null);
+    else if (classFilter !== "all") query = query.eq("class_id", classFilter);
+
+    const { data } = await query;
     setStudents(data || []);
     setLoading(false);
-  };
+  }, [classFilter]);
 
   useEffect(() => {
     fetchStudents();
-  }, []);
+  }, [fetchStudents]);
+
+  useEffect(() => {
+    if (classFilter !== "all") setNewClassId(classFilter);
+  }, [classFilter]);
 
   const handleAddStudent = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -47,32 +69,28 @@ export default function Students() {
       return;
     }
 
-    let photoUrl: string | null = null;
-
-    if (photo) {
-      const ext = photo.name.split(".").pop();
-      const path = `${principalId}/${Date.now()}.${ext}`;
-      const { error: uploadError } = await supabase.storage
-        .from("student_photos")
-        .upload(path, photo);
-      if (uploadError) {
-        toast.error("Failed to upload photo");
-        return;
-      }
-      const { data: urlData } = supabase.storage.from("student_photos").getPublicUrl(path);
-      photoUrl = urlData.publicUrl;
-    }
-
-    const { error } = await supabase.from("students").insert({
-      full_name: fullName,
-      roll_number: rollNumber,
-      principal_id: principalId,
-      photo_url: photoUrl,
-    });
+    const { data: student, error } = await supabase
+      .from("students")
+      .insert({
+        full_name: fullName,
+        roll_number: rollNumber,
+        principal_id: principalId,
+        class_id: newClassId === NO_CLASS ? null : newClassId,
+      })
+      .select("id")
+      .single();
 
     if (error) {
       toast.error(error.message);
     } else {
+      if (photo) {
+        try {
+          const { enrollment } = await addStudentPhoto(student.id, principalId, photo, true);
+          reportEnrollment(enrollment);
+        } catch {
+          toast.error("Failed to upload photo");
+        }
+      }
       toast.success("Student added!");
       setFullName("");
       setRollNumber("");
@@ -82,6 +100,18 @@ export default function Students() {
     }
   };
 
+  const handleClassChange = async (studentId: string, value: string) => {
+    const { error } = await supabase
+      .from("students")
+      .update({ class_id: value === NO_CLASS ? null : value })
+      .eq("id", studentId);
+    if (error) toast.error(error.message);
+    else {
+      toast.success("Class updated");
+      fetchStudents();
+    }
+  };
+
   const handleDelete = async (id: string) => {
     const { error } = await supabase.from("students").delete().eq("id", id);
     if (error) toast.error(error.message);
@@ -93,15 +123,13 @@ export default function Students() {
 
   const handlePhotoUpload = async (studentId: string, file: File) => {
     if (!principalId) return;
-    const ext = file.name.split(".").pop();
-    const path = `${principalId}/${studentId}.${ext}`;
-    const { error } = await supabase.storage.from("student_photos").upload(path, file, { upsert: true });
-    if (error) {
+    try {
+      const { enrollment } = await addStudentPhoto(studentId, principalId, file, true);
+      reportEnrollment(enrollment);
+    } catch {
       toast.error("Upload failed");
       return;
     }
-    const { data: urlData } = supabase.storage.from("student_photos").getPublicUrl(path);
-    await supabase.from("students").update({ photo_url: urlData.publicUrl }).eq("id", studentId);
     toast.success("Photo updated!");
     fetchStudents();
   };
@@ -115,36 +143,77 @@ export default function Students() {
             <p className="text-muted-foreground">Manage student records and photos</p>
           </div>
           {(profile?.role === "principal" || profile?.role === "faculty") && (
-            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-              <DialogTrigger asChild>
-                <Button>
-                  <Plus className="mr-2 h-4 w-4" /> Add Student
-                </Button>
-              </DialogTrigger>
-              <DialogContent>
-                <DialogHeader>
-                  <DialogTitle>Add New Student</DialogTitle>
-                </DialogHeader>
-                <form onSubmit={handleAddStudent} className="space-y-4">
-                  <div className="space-y-2">
-                    <Label>Full Name</Label>
-                    <Input value={fullName} onChange={(e) => setFullName(e.target.value)} required />
-                  </div>
-                  <div className="space-y-2">
-                    <Label>Roll Number</Label>
-                    <Input value={rollNumber} onChange={(e) => setRollNumber(e.target.value)} required />
-                  </div>
-                  <div className="space-y-2">
-                    <Label>Photo (for facial recognition)</Label>
-                    <Input type="file" accept="image/*" onChange={(e) => setPhoto(e.target.files?.[0] || null)} />
-                  </div>
-                  <Button type="submit" className="w-full">Add Student</Button>
-                </form>
-              </DialogContent>
-            </Dialog>
+            <div className="flex gap-2">
+              <Button asChild variant="outline">
+                <Link to={`/id-cards?class=${classFilter}`}>
+                  <IdCard className="mr-2 h-4 w-4" /> Print ID Cards
+                </Link>
+              </Button>
+              <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button>
+                    <Plus className="mr-2 h-4 w-4" /> Add Student
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Add New Student</DialogTitle>
+                  </DialogHeader>
+                  <form onSubmit={handleAddStudent} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label>Full Name</Label>
+                      <Input value={fullName} onChange={(e) => setFullName(e.target.value)} required />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Roll Number</Label>
+                      <Input value={rollNumber} onChange={(e) => setRollNumber(e.target.value)} required />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Class</Label>
+                      <Select value={newClassId} onValueChange={setNewClassId}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_CLASS}>No class</SelectItem>
+                          {classes.map((c) => (
+                            <SelectItem key={c.id} value={c.id}>
+                              {classLabel(c)} ({c.academic_year})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Photo (for facial recognition)</Label>
+                      <Input type="file" accept="image/*" onChange={(e) => setPhoto(e.target.files?.[0] || null)} />
+                    </div>
+                    <Button type="submit" className="w-full">Add Student</Button>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            </div>
           )}
         </div>
 
+        <div className="space-y-2">
+          <Label>Class</Label>
+          <Select value={classFilter} onValueChange={setClassFilter}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Classes</SelectItem>
+              <SelectItem value={NO_CLASS}>No class</SelectItem>
+              {classes.map((c) => (
+                <SelectItem key={c.id} value={c.id}>
+                  {classLabel(c)} ({c.academic_year})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         <Card>
           <CardContent className="p-0">
             <Table>
@@ -153,17 +222,18 @@ export default function Students() {
                   <TableHead>Photo</TableHead>
                   <TableHead>Roll No.</TableHead>
                   <TableHead>Name</TableHead>
+                  <TableHead>Class</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {loading ? (
                   <TableRow>
-                    <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">Loading...</TableCell>
+                    <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">Loading...</TableCell>
                   </TableRow>
                 ) : students.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">No students added yet</TableCell>
+                    <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">No students added yet</TableCell>
                   </TableRow>
                 ) : (
                   students.map((student) => (
@@ -179,8 +249,29 @@ export default function Students() {
                       </TableCell>
                       <TableCell className="font-medium">{student.roll_number}</TableCell>
                       <TableCell>{student.full_name}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={student.class_id ?? NO_CLASS}
+                          onValueChange={(value) => handleClassChange(student.id, value)}
+                        >
+                          <SelectTrigger className="h-8 w-40">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_CLASS}>No class</SelectItem>
+                            {classes.map((c) => (
+                              <SelectItem key={c.id} value={c.id}>
+                                {classLabel(c)} ({c.academic_year})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
                       <TableCell className="text-right">
                         <div className="flex items-center justify-end gap-2">
+                          <button onClick={() => setGalleryStudent(student)} title="Manage photos">
+                            <Images className="h-4 w-4 text-muted-foreground hover:text-foreground" />
+                          </button>
                           <label className="cursor-pointer">
                             <Upload className="h-4 w-4 text-muted-foreground hover:text-foreground" />
                             <input
@@ -208,6 +299,13 @@ export default function Students() {
           </CardContent>
         </Card>
       </div>
+
+      <StudentPhotoGallery
+        student={galleryStudent}
+        principalId={principalId}
+        onOpenChange={(open) => !open && setGalleryStudent(null)}
+        onChanged={fetchStudents}
+      />
     </DashboardLayout>
   );
 }
@@ -0,0 +1,192 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useTimetable } from "@/hooks/useTimetable";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { Coffee, Plus, RotateCcw, Trash2 } from "lucide-react";
+import {
+  DEFAULT_TIMETABLE,
+  saveTimetable,
+  toMinutes,
+  validateTimetable,
+  type TimetableSlot,
+} from "@/lib/timetable";
+
+interface Row extends TimetableSlot {
+  key: string;
+}
+
+const toRows = (timetable: TimetableSlot[]): Row[] =>
+  timetable.map((slot) => ({ ...slot, key: crypto.randomUUID() }));
+
+export default function Timetable() {
+  const { profile } = useAuth();
+  const { timetable, loading, refresh } = useTimetable();
+  const [rows, setRows] = useState<Row[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setRows(toRows(timetable));
+  }, [timetable]);
+
+  const updateRow = (key: string, changes: Partial<TimetableSlot>) =>
+    setRows((prev) => prev.map((row) => (row.key === key ? { ...row, ...changes } : row)));
+
+  // New slots start where the last one ends
+  const addRow = (isBreak: boolean) => {
+    setRows((prev) => {
+      const last = prev[prev.length - 1];
+      const start = last?.end_time ?? "09:00";
+      const end = Math.min(toMinutes(start) + (isBreak ? 15 : 60), 23 * 60 + 59);
+      const nextPeriod = Math.max(0, ...prev.map((row) => row.period ?? 0)) + 1;
+      return [
+        ...prev,
+        {
+          key: crypto.randomUUID(),
+          period: isBreak ? null : nextPeriod,
+          label: isBreak ? "Break" : `Period ${nextPeriod}`,
+          start_time: start,
+          end_time: `${String(Math.floor(end / 60)).padStart(2, "0")}:${String(end % 60).padStart(2, "0")}`,
+          is_optional: false,
+          is_break: isBreak,
+        },
+      ];
+    });
+  };
+
+  const handleSave = async () => {
+    const timetableRows = rows.map(({ key, ...slot }) => slot);
+    const problem = validateTimetable(timetableRows);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+    setSaving(true);
+    const { error } = await saveTimetable(timetableRows);
+    if (error) toast.error(error.message);
+    else {
+      toast.success("Timetable saved");
+      refresh();
+    }
+    setSaving(false);
+  };
+
+  if (profile?.role !== "principal") {
+    return (
+      <DashboardLayout>
+        <p className="text-muted-foreground">Only principals can change the timetable.</p>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Timetable</h1>
+          <p className="text-muted-foreground">Bell times used for attendance across your school</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Periods</CardTitle>
+            <CardDescription>
+              Attendance is taken per class period. Breaks are shown for reference only. Optional periods can be marked
+              free by teachers on the day.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-24">Period #</TableHead>
+                  <TableHead>Label</TableHead>
+                  <TableHead>Start</TableHead>
+                  <TableHead>End</TableHead>
+                  <TableHead>Optional</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.key}>
+                    <TableCell>
+                      {row.is_break ? (
+                        <span className="inline-flex items-center gap-1 text-sm text-muted-foreground">
+                          <Coffee className="h-4 w-4" /> Break
+                        </span>
+                      ) : (
+                        <Input
+                          type="number"
+                          min={1}
+                          value={row.period ?? ""}
+                          onChange={(e) => updateRow(row.key, { period: parseInt(e.target.value) || null })}
+                        />
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Input value={row.label} onChange={(e) => updateRow(row.key, { label: e.target.value })} />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="time"
+                        value={row.start_time}
+                        onChange={(e) => updateRow(row.key, { start_time: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="time"
+                        value={row.end_time}
+                        onChange={(e) => updateRow(row.key, { end_time: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {!row.is_break && (
+                        <Switch
+                          checked={row.is_optional}
+                          onCheckedChange={(checked) => updateRow(row.key, { is_optional: checked })}
+                        />
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => setRows((prev) => prev.filter((r) => r.key !== row.key))}
+                        title="Remove"
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => addRow(false)}>
+                <Plus className="mr-2 h-4 w-4" /> Add Period
+              </Button>
+              <Button variant="outline" onClick={() => addRow(true)}>
+                <Coffee className="mr-2 h-4 w-4" /> Add Break
+              </Button>
+              <Button variant="ghost" onClick={() => setRows(toRows(DEFAULT_TIMETABLE))}>
+                <RotateCcw className="mr-2 h-4 w-4" /> Reset to Default
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Button onClick={handleSave} disabled={saving || loading}>
+          {saving ? "Saving..." : "Save Timetable"}
+        </Button>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,204 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Link2, ScanFace, X } from "lucide-react";
+import { reportEnrollment } from "@/lib/studentPhotos";
+import {
+  dismissUnknownFace,
+  linkUnknownFace,
+  signedUnknownFaceUrls,
+  type UnknownFace,
+} from "@/lib/unknownFaces";
+
+interface UnknownFaceRow extends UnknownFace {
+  faculty?: { full_name: string | null } | null;
+  students?: { full_name: string; roll_number: string } | null;
+}
+
+interface StudentOption {
+  id: string;
+  full_name: string;
+  roll_number: string;
+}
+
+export default function UnknownFaces() {
+  const { user, profile } = useAuth();
+  const [faces, setFaces] = useState<UnknownFaceRow[]>([]);
+  const [imageUrls, setImageUrls] = useState<Record<string, string>>({});
+  const [students, setStudents] = useState<StudentOption[]>([]);
+  const [statusFilter, setStatusFilter] = useState("pending");
+  const [selectedStudent, setSelectedStudent] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchFaces = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    const { data } = await supabase
+      .from("unknown_faces")
+      .select("*, faculty:profiles!unknown_faces_faculty_id_fkey(full_name), students(full_name, roll_number)")
+      .eq("principal_id", user.id)
+      .eq("status", statusFilter)
+      .order("created_at", { ascending: false })
+      .limit(100);
+    const rows = (data as UnknownFaceRow[]) || [];
+    setFaces(rows);
+    setImageUrls(await signedUnknownFaceUrls(rows.filter((f) => f.status !== "dismissed")));
+    setLoading(false);
+  }, [user, statusFilter]);
+
+  useEffect(() => {
+    fetchFaces();
+  }, [fetchFaces]);
+
+  useEffect(() => {
+    supabase
+      .from("students")
+      .select("id, full_name, roll_number")
+      .order("roll_number")
+      .then(({ data }) => setStudents(data || []));
+  }, []);
+
+  const handleLink = async (face: UnknownFaceRow) => {
+    const studentId = selectedStudent[face.id];
+    if (!user || !studentId) {
+      toast.error("Choose a student first");
+      return;
+    }
+    setBusyId(face.id);
+    try {
+      reportEnrollment(await linkUnknownFace(face, studentId, user.id));
+      toast.success("Face linked and added to the student's photos");
+      fetchFaces();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not link face");
+    }
+    setBusyId(null);
+  };
+
+  const handleDismiss = async (face: UnknownFaceRow) => {
+    if (!user) return;
+    setBusyId(face.id);
+    try {
+      await dismissUnknownFace(face, user.id);
+      toast.success("Face dismissed");
+      fetchFaces();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not dismiss face");
+    }
+    setBusyId(null);
+  };
+
+  if (profile?.role !== "principal") {
+    return (
+      <DashboardLayout>
+        <p className="text-muted-foreground">Only principals can review unknown faces.</p>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Unknown Faces</h1>
+            <p className="text-muted-foreground">
+              Faces seen during live attendance that didn't match any student
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="linked">Linked</SelectItem>
+                <SelectItem value="dismissed">Dismissed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {loading ? (
+          <p className="py-8 text-center text-muted-foreground">Loading...</p>
+        ) : faces.length === 0 ? (
+          <p className="py-8 text-center text-muted-foreground">No {statusFilter} faces</p>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-3">
+            {faces.map((face) => (
+              <Card key={face.id}>
+                <CardContent className="space-y-3 p-4">
+                  <div className="flex gap-3">
+                    {imageUrls[face.storage_path] ? (
+                      <img
+                        src={imageUrls[face.storage_path]}
+                        alt="Unknown face"
+                        className="h-24 w-24 rounded-lg object-cover"
+                      />
+                    ) : (
+                      <div className="flex h-24 w-24 items-center justify-center rounded-lg bg-muted">
+                        <ScanFace className="h-8 w-8 text-muted-foreground" />
+                      </div>
+                    )}
+                    <div className="space-y-1 text-sm">
+                      <p className="font-medium">
+                        {new Date(face.date).toLocaleDateString()} · Period {face.period}
+                      </p>
+                      <p className="text-muted-foreground">Captured by {face.faculty?.full_name || "—"}</p>
+                      {face.students && (
+                        <p className="text-muted-foreground">
+                          Linked to {face.students.full_name} (Roll {face.students.roll_number})
+                        </p>
+                      )}
+                    </div>
+                  </div>
+
+                  {face.status === "pending" && (
+                    <div className="flex gap-2">
+                      <Select
+                        value={selectedStudent[face.id]}
+                        onValueChange={(value) => setSelectedStudent((prev) => ({ ...prev, [face.id]: value }))}
+                      >
+                        <SelectTrigger className="flex-1">
+                          <SelectValue placeholder="Select student" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {students.map((s) => (
+                            <SelectItem key={s.id} value={s.id}>
+                              {s.roll_number} — {s.full_name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button size="icon" disabled={busyId === face.id} onClick={() => handleLink(face)} title="Link">
+                        <Link2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="outline"
+                        disabled={busyId === face.id}
+                        onClick={() => handleDismiss(face)}
+                        title="Dismiss"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { dayStatus, type CalendarEvent } from "@/lib/academicCalendar";
+
+const event = (overrides: Partial<CalendarEvent>): CalendarEvent => ({
+  id: "e1",
+  principal_id: "p1",
+  kind: "holiday",
+  title: "Diwali",
+  start_date: "2026-11-08",
+  end_date: "2026-11-10",
+  created_at: "2026-10-01T00:00:00Z",
+  ...overrides,
+});
+
+describe("academic calendar", () => {
+  it("closes weekly off days", () => {
+    expect(dayStatus([], [0], "2026-10-25")).toMatchObject({ closed: true, reason: "Sunday" });
+    expect(dayStatus([], [0], "2026-10-26").closed).toBe(false);
+  });
+
+  it("closes every day of a holiday", () => {
+    const events = [event({})];
+    expect(dayStatus(events, [0], "2026-11-09")).toMatchObject({ closed: true, reason: "Diwali" });
+    expect(dayStatus(events, [0], "2026-11-11").closed).toBe(false);
+  });
+
+  it("closes days outside the terms once terms exist", () => {
+    const events = [event({ kind: "term", title: "Term 2", start_date: "2026-10-01", end_date: "2026-12-20" })];
+    expect(dayStatus(events, [0], "2026-12-21")).toMatchObject({ closed: true, reason: "Outside term" });
+    expect(dayStatus(events, [0], "2026-12-18").closed).toBe(false);
+  });
+
+  it("keeps exam days and half-days open", () => {
+    const exam = event({ kind: "exam", title: "Mid-terms", start_date: "2026-10-19", end_date: "2026-10-19" });
+    const status = dayStatus([exam], [0], "2026-10-19");
+    expect(status.closed).toBe(false);
+    expect(status.events).toEqual([exam]);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { exportFileName, toCsv, type ExportColumn } from "@/lib/attendanceExport";
+
+interface Row {
+  name: string;
+  roll: string;
+  period: number;
+  percentage: number | null;
+}
+
+const columns: ExportColumn<Row>[] = [
+  { header: "Roll No.", type: "string", value: (r) => r.roll },
+  { header: "Student", type: "string", value: (r) => r.name },
+  { header: "Period", type: "number", value: (r) => r.period },
+  { header: "Attendance", type: "percent", value: (r) => r.percentage },
+];
+
+describe("toCsv", () => {
+  it("writes a header row and bare numbers", () => {
+    const csv = toCsv(columns, [{ name: "Asha Rao", roll: "07", period: 2, percentage: 92.5 }]);
+    expect(csv).toBe("Roll No.,Student,Period,Attendance\r\n07,Asha Rao,2,92.5");
+  });
+
+  it("quotes commas and quotes, and leaves missing values empty", () => {
+    const csv = toCsv(columns, [{ name: 'Rao, Asha "Ash"', roll: "1", period: 1, percentage: null }]);
+    expect(csv.split("\r\n")[1]).toBe('1,"Rao, Asha ""Ash""",1,');
+  });
+
+  it("stops text cells from running as spreadsheet formulas", () => {
+    const csv = toCsv(columns, [{ name: "=HYPERLINK(1)", roll: "1", period: 1, percentage: null }]);
+    expect(csv.split("\r\n")[1]).toBe("1,'=HYPERLINK(1),1,");
+  });
+});
+
+describe("exportFileName", () => {
+  it("joins the non-empty parts into a safe file name", () => {
+    expect(exportFileName(["attendance", "2026-10-19", null, "Grade 5 A"], "csv")).toBe(
+      "attendance-2026-10-19-grade-5-a.csv"
+    );
+    expect(exportFileName([], "pdf")).toBe("export.pdf");
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { filterReportRows, sortReportRows, type AttendanceReportRow } from "@/lib/attendanceReport";
+
+const row = (roll: string, name: string, percentage: number | null): AttendanceReportRow => ({
+  student_id: `id-${roll}`,
+  full_name: name,
+  roll_number: roll,
+  class_id: null,
+  present: 0,
+  late: 0,
+  sleepy: 0,
+  absent: 0,
+  excused: 0,
+  medical_leave: 0,
+  on_duty: 0,
+  sessions: 0,
+  percentage,
+});
+
+const rows = [row("10", "Asha Rao", 92.5), row("2", "Ben Thomas", 60), row("1", "Chitra Nair", null)];
+
+describe("sortReportRows", () => {
+  it("sorts roll numbers numerically", () => {
+    expect(sortReportRows(rows, "roll_number", "asc").map((r) => r.roll_number)).toEqual(["1", "2", "10"]);
+    expect(sortReportRows(rows, "roll_number", "desc").map((r) => r.roll_number)).toEqual(["10", "2", "1"]);
+  });
+
+  it("keeps students without a percentage last in either direction", () => {
+    expect(sortReportRows(rows, "percentage", "asc").map((r) => r.roll_number)).toEqual(["2", "10", "1"]);
+    expect(sortReportRows(rows, "percentage", "desc").map((r) => r.roll_number)).toEqual(["10", "2", "1"]);
+  });
+
+  it("does not reorder the input", () => {
+    sortReportRows(rows, "full_name", "desc");
+    expect(rows.map((r) => r.roll_number)).toEqual(["10", "2", "1"]);
+  });
+});
+
+describe("filterReportRows", () => {
+  it("matches names and roll numbers case-insensitively", () => {
+    expect(filterReportRows(rows, { search: "ben", belowPercentage: null })).toHaveLength(1);
+    expect(filterReportRows(rows, { search: " 10 ", belowPercentage: null })[0].full_name).toBe("Asha Rao");
+  });
+
+  it("keeps only students below the threshold", () => {
+    const below = filterReportRows(rows, { search: "", belowPercentage: 75 });
+    expect(below.map((r) => r.full_name)).toEqual(["Ben Thomas"]);
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, it, expect } from "vitest";
+import { attendancePercentage } from "@/lib/attendanceStatus";
+
+describe("attendance percentage", () => {
+  it("gives late arrivals half credit", () => {
+    expect(attendancePercentage(["present", "late", "absent", "present"])).toBe(62.5);
+  });
+
+  it("counts on-duty and sleepy students as attending", () => {
+    expect(attendancePercentage(["on_duty", "sleepy"])).toBe(100);
+  });
+
+  it("leaves excused and medical leave out of the percentage", () => {
+    expect(attendancePercentage(["present", "excused", "medical_leave", "absent"])).toBe(50);
+    expect(attendancePercentage(["excused"])).toBeNull();
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { batchAsEdits, isPermanentError, MAX_SYNC_ATTEMPTS, rejectedBatch } from "@/lib/attendanceSync";
+import type { PendingAttendanceBatch } from "@/lib/offlineStore";
+
+const batch: PendingAttendanceBatch = {
+  id: "batch-1",
+  createdAt: "2026-10-19T09:00:00.000Z",
+  userId: "teacher-1",
+  date: "2026-10-19",
+  period: 2,
+  records: [{ student_id: "s1", date: "2026-10-19", period: 2, status: "present", verified_by: "teacher-1" }],
+  edits: [],
+  attempts: 0,
+};
+
+describe("isPermanentError", () => {
+  it("treats policy, constraint and raised errors as permanent", () => {
+    expect(isPermanentError({ code: "42501" })).toBe(true);
+    expect(isPermanentError({ code: "23503" })).toBe(true);
+    expect(isPermanentError({ code: "P0001" })).toBe(true);
+  });
+
+  it("retries server and gateway errors", () => {
+    expect(isPermanentError({ code: "PGRST301" })).toBe(false);
+    expect(isPermanentError({ code: "57014" })).toBe(false);
+    expect(isPermanentError({})).toBe(false);
+  });
+});
+
+describe("rejectedBatch", () => {
+  it("fails a batch at once when the server refuses it for good", () => {
+    const rejected = rejectedBatch(batch, { message: "new row violates row-level security policy", code: "42501" });
+    expect(rejected.failed).toBe(true);
+    expect(rejected.attempts).toBe(1);
+    expect(rejected.lastError).toBe("new row violates row-level security policy");
+  });
+
+  it("keeps retrying other errors until the attempts run out", () => {
+    const timeout = { message: "canceling statement due to statement timeout", code: "57014" };
+    let current = batch;
+    for (let i = 1; i < MAX_SYNC_ATTEMPTS; i++) {
+      current = rejectedBatch(current, timeout);
+      expect(current.failed).toBe(false);
+    }
+    expect(rejectedBatch(current, timeout).failed).toBe(true);
+  });
+});
+
+describe("batchAsEdits", () => {
+  it("moves new rows into edits and clears the failure", () => {
+    const failed = { ...batch, attempts: 1, failed: true, lastError: "refused" };
+    const retry = batchAsEdits(failed, "teacher-2", new Date("2026-10-19T10:00:00.000Z"));
+    expect(retry.records).toEqual([]);
+    expect(retry.edits).toEqual([
+      { ...batch.records[0], updated_by: "teacher-2", updated_at: "2026-10-19T10:00:00.000Z" },
+    ]);
+    expect(retry).toMatchObject({ attempts: 0, failed: false, lastError: undefined });
+  });
+});
@@ -0,0 +1,15 @@
+import { describe, it, expect } from "vitest";
+import { classLabel, currentAcademicYear } from "@/lib/classes";
+
+describe("classes", () => {
+  it("starts the academic year in June", () => {
+    expect(currentAcademicYear(new Date(2026, 5, 1))).toBe("2026-27");
+    expect(currentAcademicYear(new Date(2026, 4, 31))).toBe("2025-26");
+    expect(currentAcademicYear(new Date(2099, 11, 31))).toBe("2099-00");
+  });
+
+  it("labels classes with and without a section", () => {
+    expect(classLabel({ grade: "5", section: "B" })).toBe("Grade 5-B");
+    expect(classLabel({ grade: "12", section: "" })).toBe("Grade 12");
+  });
+});
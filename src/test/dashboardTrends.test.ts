@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { fillDailyRates, lastDays, splitByPeriod, weekStart } from "@/lib/dashboardTrends";
+
+describe("lastDays", () => {
+  it("ends on the given day, across month boundaries", () => {
+    expect(lastDays("2026-10-02", 3)).toEqual(["2026-09-30", "2026-10-01", "2026-10-02"]);
+  });
+});
+
+describe("weekStart", () => {
+  it("returns the Monday of the week", () => {
+    expect(weekStart("2026-10-21")).toBe("2026-10-19");
+    expect(weekStart("2026-10-19")).toBe("2026-10-19");
+    expect(weekStart("2026-10-25")).toBe("2026-10-19");
+  });
+});
+
+describe("fillDailyRates", () => {
+  it("leaves days without attendance empty", () => {
+    const points = fillDailyRates(["2026-10-17", "2026-10-18"], [{ date: "2026-10-17", sessions: 40, percentage: 92.5 }]);
+    expect(points).toEqual([
+      { date: "2026-10-17", sessions: 40, percentage: 92.5 },
+      { date: "2026-10-18", sessions: 0, percentage: null },
+    ]);
+  });
+});
+
+describe("splitByPeriod", () => {
+  it("groups statuses into the chart series per period", () => {
+    const rows = splitByPeriod([
+      { period: 2, status: "absent", sessions: 3 },
+      { period: 1, status: "present", sessions: 20 },
+      { period: 1, status: "on_duty", sessions: 2 },
+      { period: 1, status: "medical_leave", sessions: 1 },
+      { period: 1, status: "sleepy", sessions: 4 },
+    ]);
+    expect(rows).toEqual([
+      { period: 1, present: 22, late: 0, sleepy: 4, absent: 0, excused: 1 },
+      { period: 2, present: 0, late: 0, sleepy: 0, absent: 3, excused: 0 },
+    ]);
+  });
+});
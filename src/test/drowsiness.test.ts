@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { DrowsinessTracker, eyeAspectRatio } from "@/lib/drowsiness";
+
+const eye = (openness: number) => [
+  { x: 0, y: 0 },
+  { x: 1, y: -openness },
+  { x: 2, y: -openness },
+  { x: 3, y: 0 },
+  { x: 2, y: openness },
+  { x: 1, y: openness },
+];
+
+const thresholds = { eyeAspectRatio: 0.2, headDroopRatio: 0.65, durationMs: 4000 };
+const awake = { eyeAspectRatio: 0.3, headDroop: 0.4 };
+const closed = { eyeAspectRatio: 0.1, headDroop: 0.4 };
+
+describe("eyeAspectRatio", () => {
+  it("drops as the eye closes", () => {
+    expect(eyeAspectRatio(eye(0.5))).toBeCloseTo(1 / 3);
+    expect(eyeAspectRatio(eye(0.1))).toBeLessThan(0.1);
+  });
+});
+
+describe("DrowsinessTracker", () => {
+  it("flags a student once their eyes stay closed for the duration", () => {
+    const tracker = new DrowsinessTracker(thresholds);
+    const flags = [0, 1000, 2000, 3000, 4000].map((t) => tracker.update("s1", closed, t));
+    expect(flags).toEqual([false, false, false, false, true]);
+    expect(tracker.update("s1", closed, 5000)).toBe(false);
+  });
+
+  it("ignores blinks", () => {
+    const tracker = new DrowsinessTracker(thresholds);
+    const samples = [awake, closed, awake, awake, closed, awake, awake];
+    expect(samples.some((s, i) => tracker.update("s1", s, i * 1000))).toBe(false);
+  });
+
+  it("flags a drooping head even with open eyes", () => {
+    const tracker = new DrowsinessTracker(thresholds);
+    const drooped = { eyeAspectRatio: 0.3, headDroop: 0.8 };
+    const flags = [0, 1000, 2000, 3000, 4000].map((t) => tracker.update("s1", drooped, t));
+    expect(flags[4]).toBe(true);
+  });
+
+  it("can flag again after the student wakes up", () => {
+    const tracker = new DrowsinessTracker(thresholds);
+    [0, 1000, 2000, 3000, 4000].forEach((t) => tracker.update("s1", closed, t));
+    [5000, 6000, 7000].forEach((t) => tracker.update("s1", awake, t));
+    const flags = [10000, 11000, 12000, 13000, 14000].map((t) => tracker.update("s1", closed, t));
+    expect(flags[4]).toBe(true);
+  });
+});
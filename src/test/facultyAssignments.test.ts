@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { slotsForDate, weekdayOf, type FacultyAssignment } from "@/lib/facultyAssignments";
+
+const assignment = (overrides: Partial<FacultyAssignment>): FacultyAssignment => ({
+  id: "a1",
+  principal_id: "p1",
+  faculty_id: "f1",
+  class_id: "c1",
+  subject: "Maths",
+  weekday: 1,
+  period: 1,
+  created_at: "2026-10-01T00:00:00Z",
+  ...overrides,
+});
+
+describe("faculty assignments", () => {
+  it("reads the weekday of a calendar date", () => {
+    expect(weekdayOf("2026-10-19")).toBe(1);
+    expect(weekdayOf("2026-10-25")).toBe(0);
+  });
+
+  it("returns only the faculty member's slots for that weekday", () => {
+    const assignments = [
+      assignment({ id: "a1" }),
+      assignment({ id: "a2", weekday: 2 }),
+      assignment({ id: "a3", faculty_id: "f2", period: 2 }),
+    ];
+    expect(slotsForDate(assignments, "f1", "2026-10-19").map((a) => a.id)).toEqual(["a1"]);
+    expect(slotsForDate(assignments, "f1", "2026-10-20").map((a) => a.id)).toEqual(["a2"]);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { AdaptiveFrameRate } from "@/lib/frameRate";
+import { landmarksFromPoints } from "@/lib/faceDetectionProtocol";
+
+const options = { minIntervalMs: 150, maxIntervalMs: 2000, headroom: 2, smoothing: 0.5 };
+
+describe("AdaptiveFrameRate", () => {
+  it("starts at the fastest rate", () => {
+    expect(new AdaptiveFrameRate(options).intervalMs).toBe(150);
+  });
+
+  it("waits out the rest of the interval after each frame", () => {
+    const rate = new AdaptiveFrameRate(options);
+    expect(rate.next(200)).toBe(200);
+    expect(rate.framesPerSecond).toBeCloseTo(2.5);
+  });
+
+  it("backs off gradually on a slow device and stays within the bounds", () => {
+    const rate = new AdaptiveFrameRate(options);
+    rate.next(100);
+    rate.next(900);
+    expect(rate.intervalMs).toBe(1000);
+    for (let i = 0; i < 10; i++) rate.next(5000);
+    expect(rate.intervalMs).toBe(2000);
+    expect(rate.next(5000)).toBe(0);
+  });
+
+  it("starts over after a reset", () => {
+    const rate = new AdaptiveFrameRate(options);
+    rate.next(900);
+    rate.reset();
+    expect(rate.intervalMs).toBe(150);
+  });
+});
+
+describe("landmarksFromPoints", () => {
+  it("splits the 68 points into face-api.js feature groups", () => {
+    const points = Array.from({ length: 68 }, (_, i) => ({ x: i, y: 0 }));
+    const landmarks = landmarksFromPoints(points);
+    expect(landmarks.getLeftEye().map((p) => p.x)).toEqual([36, 37, 38, 39, 40, 41]);
+    expect(landmarks.getMouth()).toHaveLength(20);
+    expect(landmarks.getJawOutline()).toHaveLength(17);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { arrivalStatus } from "@/lib/kiosk";
+import type { ClassPeriod } from "@/lib/timetable";
+
+const slot: ClassPeriod = {
+  period: 1,
+  label: "Period 1",
+  start_time: "09:00",
+  end_time: "10:00",
+  is_optional: false,
+  is_break: false,
+};
+
+const at = (hours: number, minutes: number) => {
+  const now = new Date();
+  now.setHours(hours, minutes, 0, 0);
+  return now;
+};
+
+describe("arrivalStatus", () => {
+  it("marks students present until the late threshold has passed", () => {
+    expect(arrivalStatus(slot, at(8, 55), 10)).toBe("present");
+    expect(arrivalStatus(slot, at(9, 10), 10)).toBe("present");
+    expect(arrivalStatus(slot, at(9, 11), 10)).toBe("late");
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { LivenessTracker, type FaceShapeLandmarks } from "@/lib/liveness";
+
+const eye = (cx: number, openness: number) => [
+  { x: cx - 15, y: 100 },
+  { x: cx - 5, y: 100 - openness },
+  { x: cx + 5, y: 100 - openness },
+  { x: cx + 15, y: 100 },
+  { x: cx + 5, y: 100 + openness },
+  { x: cx - 5, y: 100 + openness },
+];
+
+// Deterministic stand-in for the landmark model's frame-to-frame jitter on a still face
+const seededNoise = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  const u = seed / 2147483647;
+  seed = (seed * 16807) % 2147483647;
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos((2 * Math.PI * seed) / 2147483647);
+};
+
+// The eyes are 80px apart, so a jitter of 1.6px is 2% of that, what the movement check is calibrated for
+const face = ({
+  eyes = 5,
+  mouth = 2,
+  shift = 0,
+  turn = 0,
+  jitter = 0,
+  noise = seededNoise(1),
+} = {}): FaceShapeLandmarks => {
+  const move = (points: { x: number; y: number }[]) =>
+    points.map((p) => ({ x: p.x + shift + jitter * noise(), y: p.y + shift + jitter * noise() }));
+  const mouthPoints = Array.from({ length: 20 }, (_, i) => ({ x: 100 + i, y: 180 }));
+  mouthPoints[14] = { x: 110, y: 180 - mouth };
+  mouthPoints[18] = { x: 110, y: 180 + mouth };
+  const jaw = Array.from({ length: 17 }, (_, i) => ({ x: 40 + i * 8, y: 160 + Math.abs(8 - i) * -5 }));
+  return {
+    getLeftEye: () => move(eye(70, eyes)),
+    getRightEye: () => move(eye(150, eyes)),
+    getNose: () => move([0, 1, 2, 3].map((i) => ({ x: 110 + turn, y: 110 + i * 10 }))),
+    getJawOutline: () => move(jaw),
+    getMouth: () => move(mouthPoints),
+    getLeftEyeBrow: () => move([{ x: 60, y: 80 }, { x: 80, y: 78 }]),
+    getRightEyeBrow: () => move([{ x: 140, y: 78 }, { x: 160, y: 80 }]),
+  };
+};
+
+describe("LivenessTracker", () => {
+  it("passes a face that blinks", () => {
+    const tracker = new LivenessTracker({ mode: "blink", timeoutMs: 8000 });
+    expect(tracker.update("s1", face({ eyes: 5 }), 0)).toBe("pending");
+    expect(tracker.update("s1", face({ eyes: 1 }), 500)).toBe("pending");
+    expect(tracker.update("s1", face({ eyes: 5 }), 1000)).toBe("live");
+  });
+
+  it("flags a still photo for review after the timeout, even when it is moved around", () => {
+    const tracker = new LivenessTracker({ mode: "blink_or_movement", timeoutMs: 8000 });
+    const outcomes = Array.from({ length: 10 }, (_, i) => tracker.update("s1", face({ shift: i * 7 }), i * 1000));
+    expect(outcomes[6]).toBe("pending");
+    expect(outcomes[9]).toBe("needs_review");
+  });
+
+  it("passes a face that moves naturally", () => {
+    const tracker = new LivenessTracker({ mode: "movement", timeoutMs: 8000 });
+    const outcomes = [2, 6, 3, 8, 2, 7].map((mouth, i) => tracker.update("s1", face({ mouth }), i * 500));
+    expect(outcomes[outcomes.length - 1]).toBe("live");
+  });
+
+  it("keeps a still face pending despite landmark jitter", () => {
+    for (const seed of [1, 2, 3]) {
+      const noise = seededNoise(seed);
+      const tracker = new LivenessTracker({ mode: "blink_or_movement", timeoutMs: 8000 });
+      const outcomes = Array.from({ length: 70 }, (_, i) =>
+        tracker.update("s1", face({ jitter: 1.6, noise }), i * 100)
+      );
+      expect(outcomes.every((o) => o === "pending")).toBe(true);
+    }
+  });
+
+  it("passes a jittery face that blinks", () => {
+    const noise = seededNoise(4);
+    const tracker = new LivenessTracker({ mode: "blink", timeoutMs: 8000 });
+    const outcomes = [5, 5, 5, 1, 5].map((eyes, i) =>
+      tracker.update("s1", face({ eyes, jitter: 1.6, noise }), i * 100)
+    );
+    expect(outcomes[outcomes.length - 1]).toBe("live");
+  });
+
+  it("passes a jittery face that turns its head", () => {
+    const noise = seededNoise(5);
+    const tracker = new LivenessTracker({ mode: "movement", timeoutMs: 8000 });
+    const outcomes = [0, 5, 10, 15, 20, 25].map((turn, i) =>
+      tracker.update("s1", face({ turn, jitter: 1.6, noise }), i * 100)
+    );
+    expect(outcomes[outcomes.length - 1]).toBe("live");
+  });
+
+  it("treats every face as live when the check is off", () => {
+    const tracker = new LivenessTracker({ mode: "off", timeoutMs: 8000 });
+    expect(tracker.update("s1", face(), 0)).toBe("live");
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { daySymbol, groupRegisterRecords, monthDays, registerKey, registerTotals, type RegisterRecord } from "@/lib/monthlyRegister";
+
+describe("monthDays", () => {
+  it("lists every day of the month", () => {
+    const days = monthDays("2026-02");
+    expect(days).toHaveLength(28);
+    expect(days[0]).toBe("2026-02-01");
+    expect(days[27]).toBe("2026-02-28");
+    expect(monthDays("2028-02")).toHaveLength(29);
+    expect(monthDays("2026-10")).toHaveLength(31);
+  });
+});
+
+describe("daySymbol", () => {
+  it("uses the status symbol when every period agrees", () => {
+    expect(daySymbol(["present", "present"])).toBe("P");
+    expect(daySymbol(["absent"])).toBe("A");
+    expect(daySymbol(["sleepy", "sleepy"])).toBe("S");
+  });
+
+  it("shows periods attended out of those that count on mixed days", () => {
+    expect(daySymbol(["present", "absent", "late", "excused"])).toBe("2/3");
+  });
+
+  it("is empty when nothing was marked", () => {
+    expect(daySymbol([])).toBeNull();
+  });
+});
+
+describe("registerTotals", () => {
+  it("counts attended and absent sessions with the attendance percentage", () => {
+    expect(registerTotals(["present", "late", "absent", "excused"])).toEqual({ present: 2, absent: 1, percentage: 50 });
+  });
+});
+
+describe("groupRegisterRecords", () => {
+  it("groups by student and day in period order", () => {
+    const record = (period: number, date = "2026-10-05"): RegisterRecord => ({
+      id: `${date}-${period}`,
+      student_id: "s1",
+      date,
+      period,
+      status: "present",
+      arrived_at: null,
+    });
+    const grouped = groupRegisterRecords([record(3), record(1), record(2, "2026-10-06")]);
+    expect(grouped.get(registerKey("s1", "2026-10-05"))?.map((r) => r.period)).toEqual([1, 3]);
+    expect(grouped.get(registerKey("s1", "2026-10-06"))).toHaveLength(1);
+  });
+});
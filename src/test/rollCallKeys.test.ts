@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { findRollIndex, statusForKey } from "@/lib/rollCallKeys";
+
+describe("statusForKey", () => {
+  it("maps letters to statuses regardless of case", () => {
+    expect(statusForKey("p")).toBe("present");
+    expect(statusForKey("S")).toBe("sleepy");
+    expect(statusForKey("a")).toBe("absent");
+    expect(statusForKey("m")).toBe("medical_leave");
+    expect(statusForKey("x")).toBeNull();
+  });
+});
+
+describe("findRollIndex", () => {
+  const rolls = ["1", "2", "12", "21", "101"];
+
+  it("prefers an exact roll number", () => {
+    expect(findRollIndex(rolls, "12")).toBe(2);
+    expect(findRollIndex(rolls, "1")).toBe(0);
+  });
+
+  it("falls back to the first roll number starting with the typed digits", () => {
+    expect(findRollIndex(rolls, "10")).toBe(4);
+  });
+
+  it("returns -1 when nothing matches", () => {
+    expect(findRollIndex(rolls, "9")).toBe(-1);
+    expect(findRollIndex(rolls, "")).toBe(-1);
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, it, expect } from "vitest";
+import { isCardPayload } from "@/lib/studentCards";
+
+const studentId = "8f14e45f-ceea-467f-a9f5-6b3b7b0f1c2d";
+const principalId = "c9f0f895-fb98-4b7c-9c1e-2a8b4b1a6d3e";
+
+describe("isCardPayload", () => {
+  it("accepts the card format", () => {
+    expect(isCardPayload(`BSA1.${studentId}.${principalId}.${"a1".repeat(16)}`)).toBe(true);
+  });
+
+  it("rejects other QR codes", () => {
+    expect(isCardPayload("https://example.com")).toBe(false);
+    expect(isCardPayload(`BSA1.${studentId}.${principalId}`)).toBe(false);
+    expect(isCardPayload(`BSA1.${studentId}.${principalId}.not-a-signature`)).toBe(false);
+  });
+});
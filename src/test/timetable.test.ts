@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { format } from "date-fns";
+import {
+  classPeriods,
+  DEFAULT_TIMETABLE,
+  findArrivalPeriod,
+  findCurrentPeriod,
+  formatTime,
+  periodTiming,
+  validateTimetable,
+  type TimetableSlot,
+} from "@/lib/timetable";
+
+const slot = (overrides: Partial<TimetableSlot>): TimetableSlot => ({
+  period: 1,
+  label: "Period 1",
+  start_time: "09:00",
+  end_time: "10:00",
+  is_optional: false,
+  is_break: false,
+  ...overrides,
+});
+
+describe("timetable", () => {
+  it("formats bell times on a 12-hour clock", () => {
+    expect(formatTime("09:50")).toBe("9:50");
+    expect(formatTime("13:05")).toBe("1:05");
+    expect(formatTime("12:30")).toBe("12:30");
+  });
+
+  it("accepts the default timetable", () => {
+    expect(validateTimetable(DEFAULT_TIMETABLE)).toBeNull();
+  });
+
+  it("leaves breaks out of the class periods", () => {
+    const timetable = [
+      slot({}),
+      slot({ period: null, label: "Lunch", start_time: "10:00", end_time: "10:30", is_break: true }),
+      slot({ period: 2, label: "Period 2", start_time: "10:30", end_time: "11:30" }),
+    ];
+    expect(validateTimetable(timetable)).toBeNull();
+    expect(classPeriods(timetable).map((p) => p.period)).toEqual([1, 2]);
+  });
+
+  it("rejects overlapping slots and repeated period numbers", () => {
+    expect(validateTimetable([slot({}), slot({ period: 2, label: "Period 2", start_time: "09:30" })])).toBe(
+      "Period 1 overlaps Period 2"
+    );
+    expect(validateTimetable([slot({}), slot({ start_time: "10:00", end_time: "11:00" })])).toBe(
+      "Period number 1 is used twice"
+    );
+  });
+
+  it("rejects a slot that ends before it starts", () => {
+    expect(validateTimetable([slot({ end_time: "08:00" })])).toBe("Period 1 must end after it starts");
+  });
+});
+
+describe("period timing", () => {
+  const periods = classPeriods(DEFAULT_TIMETABLE);
+  const at = (hours: number, minutes: number) => {
+    const now = new Date();
+    now.setHours(hours, minutes, 0, 0);
+    return now;
+  };
+
+  it("finds the period that is running now", () => {
+    expect(findCurrentPeriod(periods, at(11, 5))?.period).toBe(2);
+    expect(findCurrentPeriod(periods, at(10, 50))?.period).toBe(2);
+    expect(findCurrentPeriod(periods, at(8, 0))).toBeUndefined();
+  });
+
+  it("counts students arriving shortly before the bell for the next period", () => {
+    expect(findArrivalPeriod(periods, at(9, 42), 10)?.period).toBe(1);
+    expect(findArrivalPeriod(periods, at(9, 30), 10)).toBeUndefined();
+    expect(findArrivalPeriod(periods, at(10, 45), 10)?.period).toBe(1);
+  });
+
+  it("keeps a period open for the grace window after it ends", () => {
+    const now = at(11, 0);
+    const today = format(now, "yyyy-MM-dd");
+    const [first, second, third] = periods;
+    expect(periodTiming(first, today, now, 15)).toBe("grace");
+    expect(periodTiming(first, today, now, 5)).toBe("closed");
+    expect(periodTiming(second, today, now, 15)).toBe("open");
+    expect(periodTiming(third, today, now, 15)).toBe("upcoming");
+  });
+
+  it("reads today's date on the local clock around midnight", () => {
+    const slot = (start: string, end: string) => ({ ...periods[0], start_time: start, end_time: end });
+    const late = at(23, 30);
+    const early = at(0, 30);
+    expect(periodTiming(slot("23:00", "23:59"), format(late, "yyyy-MM-dd"), late, 15)).toBe("open");
+    expect(periodTiming(slot("00:00", "01:00"), format(early, "yyyy-MM-dd"), early, 15)).toBe("open");
+  });
+
+  it("treats other dates as closed or upcoming", () => {
+    const now = at(11, 0);
+    expect(periodTiming(periods[1], "2000-01-01", now, 15)).toBe("closed");
+    expect(periodTiming(periods[1], "2999-01-01", now, 15)).toBe("upcoming");
+  });
+});
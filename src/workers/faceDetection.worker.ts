@@ -0,0 +1,69 @@
+/// <reference lib="webworker" />
+import * as faceapi from "face-api.js";
+import { detectFaces, loadFaceApi } from "@/lib/faceRecognition";
+import {
+  toDetectedFace,
+  type FaceDetectionRequest,
+  type FaceDetectionResponse,
+} from "@/lib/faceDetectionProtocol";
+
+// Runs face-api.js off the main thread so detection never blocks the attendance list.
+// Frames arrive as ImageBitmaps and results go back as plain data (see faceDetectionProtocol).
+
+const scope = self as unknown as DedicatedWorkerGlobalScope;
+
+// face-api.js only recognises browser and Node environments; describe the worker to it.
+// Frames are passed in as tensors, so the media classes are only used for instanceof checks.
+class NoVideo {}
+faceapi.env.setEnv({
+  Canvas: OffscreenCanvas,
+  CanvasRenderingContext2D: OffscreenCanvasRenderingContext2D,
+  Image: ImageBitmap,
+  ImageData,
+  Video: NoVideo,
+  createCanvasElement: () => new OffscreenCanvas(1, 1),
+  createImageElement: () => {
+    throw new Error("Images are not available in the detection worker");
+  },
+  fetch: (url: string, init?: RequestInit) => fetch(url, init),
+  readFile: () => {
+    throw new Error("readFile is not available in the detection worker");
+  },
+} as unknown as Parameters<typeof faceapi.env.setEnv>[0]);
+
+const post = (message: FaceDetectionResponse) => scope.postMessage(message);
+
+const ready = loadFaceApi();
+ready.then(
+  () => post({ type: "ready" }),
+  (err) => post({ type: "load_failed", message: err instanceof Error ? err.message : String(err) })
+);
+
+let canvas: OffscreenCanvas | null = null;
+
+function framePixels(frame: ImageBitmap) {
+  if (!canvas || canvas.width !== frame.width || canvas.height !== frame.height) {
+    canvas = new OffscreenCanvas(frame.width, frame.height);
+  }
+  const context = canvas.getContext("2d", { willReadFrequently: true }) as OffscreenCanvasRenderingContext2D;
+  context.drawImage(frame, 0, 0);
+  return context.getImageData(0, 0, frame.width, frame.height);
+}
+
+scope.onmessage = async (event: MessageEvent<FaceDetectionRequest>) => {
+  const { id, frame } = event.data;
+  try {
+    const api = await ready;
+    const pixels = api.tf.browser.fromPixels(framePixels(frame));
+    try {
+      const faces = (await detectFaces(api, pixels)).map(toDetectedFace);
+      post({ type: "detected", id, faces });
+    } finally {
+      pixels.dispose();
+    }
+  } catch (err) {
+    post({ type: "detect_failed", id, message: err instanceof Error ? err.message : String(err) });
+  } finally {
+    frame.close();
+  }
+};
@@ -0,0 +1,44 @@
+-- Resolves the school (principal id) of the signed-in user: principals own
+-- their school, faculty belong to the principal that invited them.
+create or replace function public.current_principal_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case when p.role = 'principal' then p.id else p.principal_id end
+  from public.profiles p
+  where p.id = auth.uid()
+$$;
+
+-- Face embeddings computed at enrollment time so the live matcher never has
+-- to download and re-embed student photos.
+create table public.student_face_descriptors (
+  id uuid primary key default gen_random_uuid(),
+  student_id uuid not null references public.students(id) on delete cascade,
+  principal_id uuid not null references public.profiles(id) on delete cascade,
+  descriptor real[] not null check (array_length(descriptor, 1) = 128),
+  model_version text not null,
+  source_image text,
+  created_at timestamptz not null default now()
+);
+
+create index student_face_descriptors_principal_id_idx
+  on public.student_face_descriptors (principal_id, model_version);
+create index student_face_descriptors_student_id_idx
+  on public.student_face_descriptors (student_id);
+
+alter table public.student_face_descriptors enable row level security;
+
+create policy "School staff can read face descriptors"
+  on public.student_face_descriptors for select
+  using (principal_id = public.current_principal_id());
+
+create policy "School staff can add face descriptors"
+  on public.student_face_descriptors for insert
+  with check (principal_id = public.current_principal_id());
+
+create policy "School staff can remove face descriptors"
+  on public.student_face_descriptors for delete
+  using (principal_id = public.current_principal_id());
@@ -0,0 +1,69 @@
+-- Several enrollment photos per student; exactly one of them may be primary
+-- and is mirrored into students.photo_url for list views.
+create table public.student_photos (
+  id uuid primary key default gen_random_uuid(),
+  student_id uuid not null references public.students(id) on delete cascade,
+  principal_id uuid not null references public.profiles(id) on delete cascade,
+  storage_path text not null,
+  photo_url text not null,
+  is_primary boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index student_photos_student_id_idx on public.student_photos (student_id);
+create unique index student_photos_one_primary_idx
+  on public.student_photos (student_id)
+  where is_primary;
+
+alter table public.student_photos enable row level security;
+
+create policy "School staff can read student photos"
+  on public.student_photos for select
+  using (principal_id = public.current_principal_id());
+
+create policy "School staff can add student photos"
+  on public.student_photos for insert
+  with check (principal_id = public.current_principal_id());
+
+create policy "School staff can update student photos"
+  on public.student_photos for update
+  using (principal_id = public.current_principal_id());
+
+create policy "School staff can remove student photos"
+  on public.student_photos for delete
+  using (principal_id = public.current_principal_id());
+
+-- Existing single photos become the primary gallery entry.
+insert into public.student_photos (student_id, principal_id, storage_path, photo_url, is_primary)
+select s.id, s.principal_id, split_part(s.photo_url, '/student_photos/', 2), s.photo_url, true
+from public.students s
+where s.photo_url is not null;
+
+alter table public.student_face_descriptors
+  add column student_photo_id uuid references public.student_photos(id) on delete cascade;
+
+create index student_face_descriptors_student_photo_id_idx
+  on public.student_face_descriptors (student_photo_id);
+
+-- Swaps the primary photo atomically and keeps students.photo_url in sync.
+create or replace function public.set_primary_student_photo(p_photo_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_photo public.student_photos;
+begin
+  select * into v_photo from public.student_photos where id = p_photo_id;
+  if not found then
+    raise exception 'Photo not found';
+  end if;
+
+  update public.student_photos
+    set is_primary = false
+    where student_id = v_photo.student_id and is_primary and id <> p_photo_id;
+  update public.student_photos set is_primary = true where id = p_photo_id;
+  update public.students set photo_url = v_photo.photo_url where id = v_photo.student_id;
+end;
+$$;
@@ -0,0 +1,23 @@
+-- Per-school tunables for the live attendance pipeline. Schools without a row
+-- use the defaults declared here (mirrored in src/lib/schoolSettings.ts).
+create table public.school_settings (
+  principal_id uuid primary key references public.profiles(id) on delete cascade,
+  sleepy_eye_aspect_ratio real not null default 0.21,
+  sleepy_head_droop_ratio real not null default 0.65,
+  sleepy_duration_seconds real not null default 4,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.school_settings enable row level security;
+
+create policy "School staff can read school settings"
+  on public.school_settings for select
+  using (principal_id = public.current_principal_id());
+
+create policy "Principals can create their school settings"
+  on public.school_settings for insert
+  with check (principal_id = auth.uid());
+
+create policy "Principals can update their school settings"
+  on public.school_settings for update
+  using (principal_id = auth.uid());
@@ -0,0 +1,7 @@
+-- Liveness gate for auto-marking: a recognised face only counts as present once
+-- it has blinked and/or shown natural landmark movement.
+alter table public.school_settings
+  add column auto_mark_present boolean not null default true,
+  add column liveness_mode text not null default 'blink_or_movement'
+    check (liveness_mode in ('off', 'blink', 'movement', 'blink_or_movement')),
+  add column liveness_timeout_seconds real not null default 8;
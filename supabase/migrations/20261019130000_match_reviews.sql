@@ -0,0 +1,31 @@
+-- Matching thresholds are tunable per school. Matches whose distance falls
+-- within the review margin below the threshold are confirmed by the teacher.
+alter table public.school_settings
+  add column match_threshold real not null default 0.5,
+  add column match_review_margin real not null default 0.08;
+
+-- Teacher decisions on borderline matches, kept to tune the thresholds.
+create table public.match_reviews (
+  id uuid primary key default gen_random_uuid(),
+  principal_id uuid not null references public.profiles(id) on delete cascade,
+  student_id uuid not null references public.students(id) on delete cascade,
+  reviewed_by uuid not null references public.profiles(id),
+  decision text not null check (decision in ('confirmed', 'rejected')),
+  distance real not null,
+  threshold real not null,
+  date date not null,
+  period integer not null,
+  created_at timestamptz not null default now()
+);
+
+create index match_reviews_principal_id_idx on public.match_reviews (principal_id, created_at);
+
+alter table public.match_reviews enable row level security;
+
+create policy "School staff can read match reviews"
+  on public.match_reviews for select
+  using (principal_id = public.current_principal_id());
+
+create policy "School staff can record match reviews"
+  on public.match_reviews for insert
+  with check (principal_id = public.current_principal_id() and reviewed_by = auth.uid());
@@ -0,0 +1,50 @@
+-- Crops of faces that were detected during live attendance but matched no
+-- student. Images live in a private bucket under "<principal_id>/...".
+insert into storage.buckets (id, name, public)
+values ('unknown_faces', 'unknown_faces', false)
+on conflict (id) do nothing;
+
+create policy "School staff can upload unknown faces"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'unknown_faces'
+    and (storage.foldername(name))[1] = public.current_principal_id()::text
+  );
+
+create policy "Principals can view unknown faces"
+  on storage.objects for select
+  using (bucket_id = 'unknown_faces' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Principals can delete unknown faces"
+  on storage.objects for delete
+  using (bucket_id = 'unknown_faces' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create table public.unknown_faces (
+  id uuid primary key default gen_random_uuid(),
+  principal_id uuid not null references public.profiles(id) on delete cascade,
+  faculty_id uuid not null references public.profiles(id),
+  date date not null,
+  period integer not null,
+  storage_path text not null,
+  status text not null default 'pending' check (status in ('pending', 'linked', 'dismissed')),
+  student_id uuid references public.students(id) on delete set null,
+  reviewed_by uuid references public.profiles(id),
+  reviewed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index unknown_faces_principal_id_idx on public.unknown_faces (principal_id, status, created_at);
+
+alter table public.unknown_faces enable row level security;
+
+create policy "School staff can log unknown faces"
+  on public.unknown_faces for insert
+  with check (principal_id = public.current_principal_id() and faculty_id = auth.uid());
+
+create policy "Principals can read unknown faces"
+  on public.unknown_faces for select
+  using (principal_id = auth.uid());
+
+create policy "Principals can review unknown faces"
+  on public.unknown_faces for update
+  using (principal_id = auth.uid());
@@ -0,0 +1,4 @@
+-- Offline batches are replayed with ON CONFLICT (student_id, date, period), so
+-- one record per student and period must be enforced by the database.
+create unique index if not exists attendance_records_student_date_period_key
+  on public.attendance_records (student_id, date, period);
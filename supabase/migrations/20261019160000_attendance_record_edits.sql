@@ -0,0 +1,66 @@
+-- Saved periods can be corrected in place. The latest editor is kept on the
+-- record and every status change is appended to an audit table.
+alter table public.attendance_records
+  add column updated_by uuid references public.profiles(id),
+  add column updated_at timestamptz;
+
+create table public.attendance_record_edits (
+  id uuid primary key default gen_random_uuid(),
+  record_id uuid not null references public.attendance_records(id) on delete cascade,
+  previous_status text not null,
+  new_status text not null,
+  edited_by uuid not null references public.profiles(id),
+  edited_at timestamptz not null default now()
+);
+
+create index attendance_record_edits_record_id_idx on public.attendance_record_edits (record_id, edited_at);
+
+alter table public.attendance_record_edits enable row level security;
+
+create policy "School staff can read attendance edits"
+  on public.attendance_record_edits for select
+  using (
+    exists (
+      select 1
+      from public.attendance_records r
+      join public.students s on s.id = r.student_id
+      where r.id = record_id and s.principal_id = public.current_principal_id()
+    )
+  );
+
+create or replace function public.log_attendance_record_edit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status is distinct from old.status then
+    new.updated_by := coalesce(auth.uid(), new.updated_by);
+    new.updated_at := now();
+    insert into public.attendance_record_edits (record_id, previous_status, new_status, edited_by)
+    values (old.id, old.status, new.status, new.updated_by);
+  end if;
+  return new;
+end;
+$$;
+
+create trigger attendance_records_log_edit
+  before update on public.attendance_records
+  for each row execute function public.log_attendance_record_edit();
+
+-- Saving an existing period upserts, which needs update rights on the school's rows.
+create policy "School staff can update attendance"
+  on public.attendance_records for update
+  using (
+    exists (
+      select 1 from public.students s
+      where s.id = student_id and s.principal_id = public.current_principal_id()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.students s
+      where s.id = student_id and s.principal_id = public.current_principal_id()
+    )
+  );
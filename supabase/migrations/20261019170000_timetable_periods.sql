@@ -0,0 +1,54 @@
+-- Each school's bell schedule. Class periods carry the number stored on
+-- attendance_records.period; breaks have no number and never take attendance.
+-- Schools without rows use the default timetable in src/lib/timetable.ts.
+create table public.timetable_periods (
+  id uuid primary key default gen_random_uuid(),
+  principal_id uuid not null references public.profiles(id) on delete cascade,
+  period integer check (period > 0),
+  label text not null,
+  start_time time not null,
+  end_time time not null,
+  is_optional boolean not null default false,
+  is_break boolean not null default false,
+  created_at timestamptz not null default now(),
+  check (end_time > start_time),
+  check (is_break = (period is null))
+);
+
+create unique index timetable_periods_principal_period_idx
+  on public.timetable_periods (principal_id, period)
+  where period is not null;
+
+alter table public.timetable_periods enable row level security;
+
+create policy "School staff can read the timetable"
+  on public.timetable_periods for select
+  using (principal_id = public.current_principal_id());
+
+create policy "Principals can manage their timetable"
+  on public.timetable_periods for all
+  using (principal_id = auth.uid())
+  with check (principal_id = auth.uid());
+
+-- Replaces the caller's whole timetable in one transaction so staff never see
+-- a half-saved schedule.
+create or replace function public.save_timetable(p_periods jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  delete from public.timetable_periods where principal_id = auth.uid();
+  insert into public.timetable_periods (principal_id, period, label, start_time, end_time, is_optional, is_break)
+  select
+    auth.uid(),
+    (p->>'period')::integer,
+    p->>'label',
+    (p->>'start_time')::time,
+    (p->>'end_time')::time,
+    coalesce((p->>'is_optional')::boolean, false),
+    coalesce((p->>'is_break')::boolean, false)
+  from jsonb_array_elements(p_periods) as p;
+end;
+$$;
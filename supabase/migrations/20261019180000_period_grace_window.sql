@@ -0,0 +1,4 @@
+-- Minutes after a period ends during which its attendance can still be taken.
+-- Outside the window only a principal can record new attendance.
+alter table public.school_settings
+  add column period_grace_minutes integer not null default 15 check (period_grace_minutes >= 0);
@@ -0,0 +1,33 @@
+-- Classes (grade + section for an academic year). Each student belongs to at
+-- most one current class; attendance records keep the class they were taken
+-- for, so history survives students moving up a year.
+create table public.classes (
+  id uuid primary key default gen_random_uuid(),
+  principal_id uuid not null references public.profiles(id) on delete cascade,
+  grade text not null,
+  section text not null default '',
+  academic_year text not null,
+  created_at timestamptz not null default now(),
+  unique (principal_id, academic_year, grade, section)
+);
+
+alter table public.classes enable row level security;
+
+create policy "School staff can read classes"
+  on public.classes for select
+  using (principal_id = public.current_principal_id());
+
+create policy "Principals can manage their classes"
+  on public.classes for all
+  using (principal_id = auth.uid())
+  with check (principal_id = auth.uid());
+
+alter table public.students
+  add column class_id uuid references public.classes(id) on delete set null;
+
+create index students_class_id_idx on public.students (class_id);
+
+alter table public.attendance_records
+  add column class_id uuid references public.classes(id) on delete set null;
+
+create index attendance_records_class_date_idx on public.attendance_records (class_id, date);
@@ -0,0 +1,62 @@
+-- Which faculty member teaches which class, subject and timetable slot.
+-- Weekdays follow extract(dow): 0 = Sunday ... 6 = Saturday.
+create table public.faculty_assignments (
+  id uuid primary key default gen_random_uuid(),
+  principal_id uuid not null references public.profiles(id) on delete cascade,
+  faculty_id uuid not null references public.profiles(id) on delete cascade,
+  class_id uuid not null references public.classes(id) on delete cascade,
+  subject text not null,
+  weekday smallint not null check (weekday between 0 and 6),
+  period integer not null check (period > 0),
+  created_at timestamptz not null default now(),
+  unique (class_id, weekday, period),
+  unique (faculty_id, weekday, period)
+);
+
+create index faculty_assignments_faculty_idx on public.faculty_assignments (faculty_id, weekday);
+
+alter table public.faculty_assignments enable row level security;
+
+create policy "School staff can read faculty assignments"
+  on public.faculty_assignments for select
+  using (principal_id = public.current_principal_id());
+
+create policy "Principals can manage faculty assignments"
+  on public.faculty_assignments for all
+  using (principal_id = auth.uid())
+  with check (principal_id = auth.uid());
+
+-- True when the caller may write attendance for a class slot: principals always
+-- can, and faculty only for slots assigned to them. Schools that have not set up
+-- any assignments yet keep the previous open behaviour.
+create or replace function public.can_mark_attendance(p_class_id uuid, p_date date, p_period integer)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    exists (select 1 from public.profiles where id = auth.uid() and role = 'principal')
+    or not exists (
+      select 1 from public.faculty_assignments where principal_id = public.current_principal_id()
+    )
+    or exists (
+      select 1
+      from public.faculty_assignments
+      where faculty_id = auth.uid()
+        and class_id = p_class_id
+        and weekday = extract(dow from p_date)
+        and period = p_period
+    );
+$$;
+
+-- Restrictive, so they apply on top of the existing attendance policies.
+create policy "Attendance is written only for assigned slots"
+  on public.attendance_records as restrictive for insert
+  with check (public.can_mark_attendance(class_id, date, period));
+
+create policy "Attendance is edited only for assigned slots"
+  on public.attendance_records as restrictive for update
+  using (public.can_mark_attendance(class_id, date, period))
+  with check (public.can_mark_attendance(class_id, date, period));
@@ -0,0 +1,57 @@
+-- Per-school academic calendar. Terms bound the teaching year; holidays close
+-- the school; exam days and half-days are informational. Weekly off days (by
+-- extract(dow), 0 = Sunday) live in school_settings.
+create table public.academic_calendar_events (
+  id uuid primary key default gen_random_uuid(),
+  principal_id uuid not null references public.profiles(id) on delete cascade,
+  kind text not null check (kind in ('term', 'holiday', 'exam', 'half_day')),
+  title text not null,
+  start_date date not null,
+  end_date date not null,
+  created_at timestamptz not null default now(),
+  check (end_date >= start_date)
+);
+
+create index academic_calendar_events_principal_dates_idx
+  on public.academic_calendar_events (principal_id, start_date, end_date);
+
+alter table public.academic_calendar_events enable row level security;
+
+create policy "School staff can read the academic calendar"
+  on public.academic_calendar_events for select
+  using (principal_id = public.current_principal_id());
+
+create policy "Principals can manage their academic calendar"
+  on public.academic_calendar_events for all
+  using (principal_id = auth.uid())
+  with check (principal_id = auth.uid());
+
+alter table public.school_settings
+  add column weekly_off_days smallint[] not null default '{0}';
+
+-- Mirrors dayStatus in src/lib/academicCalendar.ts. Once a school has terms,
+-- days outside every term are closed too.
+create or replace function public.is_school_day(p_principal_id uuid, p_date date)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select
+    not (extract(dow from p_date)::smallint = any (
+      coalesce((select weekly_off_days from public.school_settings where principal_id = p_principal_id), '{0}')
+    ))
+    and not exists (
+      select 1 from public.academic_calendar_events
+      where principal_id = p_principal_id and kind = 'holiday' and p_date between start_date and end_date
+    )
+    and (
+      not exists (
+        select 1 from public.academic_calendar_events where principal_id = p_principal_id and kind = 'term'
+      )
+      or exists (
+        select 1 from public.academic_calendar_events
+        where principal_id = p_principal_id and kind = 'term' and p_date between start_date and end_date
+      )
+    );
+$$;
@@ -0,0 +1,38 @@
+-- Attendance status becomes a proper enum. Late entries carry the time the
+-- student arrived.
+create type public.attendance_status as enum (
+  'present',
+  'late',
+  'sleepy',
+  'absent',
+  'excused',
+  'medical_leave',
+  'on_duty'
+);
+
+alter table public.attendance_records
+  alter column status type public.attendance_status using status::public.attendance_status,
+  add column arrived_at timestamptz,
+  add constraint attendance_records_arrived_at_late check (arrived_at is null or status = 'late');
+
+-- Recognised students arriving this many minutes after the period starts are marked late.
+alter table public.school_settings
+  add column late_after_minutes integer not null default 10 check (late_after_minutes >= 0);
+
+-- Share of a session a status earns toward attendance percentage; null leaves
+-- the session out of the percentage altogether. Mirrors STATUS_CREDIT in
+-- src/lib/attendanceStatus.ts.
+create or replace function public.attendance_status_credit(p_status public.attendance_status)
+returns numeric
+language sql
+immutable
+as $$
+  select case p_status
+    when 'present' then 1
+    when 'sleepy' then 1
+    when 'on_duty' then 1
+    when 'late' then 0.5
+    when 'absent' then 0
+    else null
+  end;
+$$;
@@ -0,0 +1,58 @@
+-- Advance notice that a student will be away. Staff record requests (with an
+-- optional note from the parent in a private bucket under "<principal_id>/...");
+-- the principal approves or rejects them. Approved leave pre-fills excused
+-- entries in live attendance.
+insert into storage.buckets (id, name, public)
+values ('leave_attachments', 'leave_attachments', false)
+on conflict (id) do nothing;
+
+create policy "School staff can upload leave attachments"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'leave_attachments'
+    and (storage.foldername(name))[1] = public.current_principal_id()::text
+  );
+
+create policy "School staff can view leave attachments"
+  on storage.objects for select
+  using (
+    bucket_id = 'leave_attachments'
+    and (storage.foldername(name))[1] = public.current_principal_id()::text
+  );
+
+create table public.leave_requests (
+  id uuid primary key default gen_random_uuid(),
+  principal_id uuid not null references public.profiles(id) on delete cascade,
+  student_id uuid not null references public.students(id) on delete cascade,
+  start_date date not null,
+  end_date date not null,
+  reason text not null,
+  attachment_path text,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  requested_by uuid not null references public.profiles(id),
+  reviewed_by uuid references public.profiles(id),
+  reviewed_at timestamptz,
+  created_at timestamptz not null default now(),
+  check (end_date >= start_date)
+);
+
+create index leave_requests_principal_status_idx on public.leave_requests (principal_id, status, start_date);
+create index leave_requests_student_dates_idx on public.leave_requests (student_id, start_date, end_date);
+
+alter table public.leave_requests enable row level security;
+
+create policy "School staff can read leave requests"
+  on public.leave_requests for select
+  using (principal_id = public.current_principal_id());
+
+create policy "School staff can request leave"
+  on public.leave_requests for insert
+  with check (
+    principal_id = public.current_principal_id()
+    and requested_by = auth.uid()
+    and status = 'pending'
+  );
+
+create policy "Principals can review leave requests"
+  on public.leave_requests for update
+  using (principal_id = auth.uid());
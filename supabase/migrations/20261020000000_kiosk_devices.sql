@@ -0,0 +1,221 @@
+-- Classroom kiosks: a door-mounted device that recognises students as they walk
+-- in and records their arrival. A principal registers a kiosk and gets a one-time
+-- pairing code; the device signs in anonymously (anonymous sign-ins must be
+-- enabled for the project) and claims the code, which gives its user a profile
+-- with role 'kiosk'. Kiosks read the school's roster like staff do, but only
+-- write attendance through record_kiosk_arrival.
+create extension if not exists pgcrypto with schema extensions;
+
+create table public.kiosk_devices (
+  id uuid primary key default gen_random_uuid(),
+  principal_id uuid not null references public.profiles(id) on delete cascade,
+  name text not null,
+  -- Limits the kiosk to one classroom's students; null recognises the whole school
+  class_id uuid references public.classes(id) on delete set null,
+  -- Cleared once a device has claimed it
+  pairing_code text unique,
+  device_user_id uuid unique references public.profiles(id) on delete set null,
+  unlock_pin_hash text not null,
+  paired_at timestamptz,
+  last_seen_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index kiosk_devices_principal_id_idx on public.kiosk_devices (principal_id);
+
+alter table public.kiosk_devices enable row level security;
+
+create policy "Principals can view their kiosks"
+  on public.kiosk_devices for select
+  using (principal_id = auth.uid());
+
+create policy "Principals can delete their kiosks"
+  on public.kiosk_devices for delete
+  using (principal_id = auth.uid());
+
+create policy "Kiosks can view their own device"
+  on public.kiosk_devices for select
+  using (device_user_id = auth.uid());
+
+-- Arrival times are now recorded for on-time students too.
+alter table public.attendance_records
+  drop constraint attendance_records_arrived_at_late,
+  add constraint attendance_records_arrived_at_arrival
+    check (arrived_at is null or status in ('present', 'late'));
+
+-- Registers a kiosk and returns its pairing code. The unlock PIN is only stored hashed.
+create or replace function public.create_kiosk(p_name text, p_class_id uuid, p_unlock_pin text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_code text;
+begin
+  if not exists (select 1 from public.profiles where id = auth.uid() and role = 'principal') then
+    raise exception 'Only principals can register kiosks';
+  end if;
+  if p_unlock_pin !~ '^[0-9]{4,8}$' then
+    raise exception 'The unlock PIN must be 4 to 8 digits';
+  end if;
+  if p_class_id is not null
+    and not exists (select 1 from public.classes where id = p_class_id and principal_id = auth.uid()) then
+    raise exception 'Class not found';
+  end if;
+
+  v_code := upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 8));
+  insert into public.kiosk_devices (principal_id, name, class_id, pairing_code, unlock_pin_hash)
+  values (auth.uid(), trim(p_name), p_class_id, v_code, extensions.crypt(p_unlock_pin, extensions.gen_salt('bf')));
+  return v_code;
+end;
+$$;
+
+-- Turns the signed-in (anonymous) user into the kiosk the pairing code belongs to.
+create or replace function public.claim_kiosk(p_code text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_device public.kiosk_devices;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in before pairing a kiosk';
+  end if;
+  if exists (select 1 from public.profiles where id = auth.uid() and role <> 'kiosk') then
+    raise exception 'Staff accounts cannot be paired as kiosks';
+  end if;
+
+  select * into v_device
+  from public.kiosk_devices
+  where pairing_code = upper(trim(p_code))
+  for update;
+  if not found then
+    raise exception 'Invalid or already used pairing code';
+  end if;
+
+  insert into public.profiles (id, full_name, role, principal_id)
+  values (auth.uid(), v_device.name, 'kiosk', v_device.principal_id)
+  on conflict (id) do update set full_name = excluded.full_name, principal_id = excluded.principal_id;
+
+  update public.kiosk_devices set device_user_id = null where device_user_id = auth.uid();
+  update public.kiosk_devices
+  set pairing_code = null, device_user_id = auth.uid(), paired_at = now()
+  where id = v_device.id;
+  return v_device.id;
+end;
+$$;
+
+create or replace function public.verify_kiosk_pin(p_pin text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select unlock_pin_hash = extensions.crypt(p_pin, unlock_pin_hash)
+     from public.kiosk_devices where device_user_id = auth.uid()),
+    false
+  );
+$$;
+
+-- Removing a kiosk detaches its device from the school, so it loses read access at once.
+create or replace function public.detach_kiosk_profile()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.device_user_id is not null then
+    update public.profiles set principal_id = null where id = old.device_user_id and role = 'kiosk';
+  end if;
+  return old;
+end;
+$$;
+
+create trigger kiosk_devices_detach_profile
+  after delete on public.kiosk_devices
+  for each row execute function public.detach_kiosk_profile();
+
+-- Records a student walking in. A student already marked for the period keeps that
+-- mark, except that an absence saved before they arrived is corrected. Returns whether
+-- anything was written.
+create or replace function public.record_kiosk_arrival(
+  p_student_id uuid,
+  p_date date,
+  p_period integer,
+  p_status public.attendance_status,
+  p_arrived_at timestamptz
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_device public.kiosk_devices;
+  v_class_id uuid;
+  v_rows integer;
+begin
+  select * into v_device from public.kiosk_devices where device_user_id = auth.uid();
+  if not found then
+    raise exception 'This device is not a paired kiosk';
+  end if;
+  if p_status not in ('present', 'late') then
+    raise exception 'Kiosks only record arrivals';
+  end if;
+
+  select class_id into v_class_id
+  from public.students
+  where id = p_student_id and principal_id = v_device.principal_id;
+  if not found then
+    raise exception 'Student not found';
+  end if;
+  if v_device.class_id is not null and v_class_id is distinct from v_device.class_id then
+    raise exception 'Student is not in this kiosk''s class';
+  end if;
+  if not public.is_school_day(v_device.principal_id, p_date) then
+    raise exception 'School is closed on this day';
+  end if;
+
+  insert into public.attendance_records (student_id, date, period, status, verified_by, class_id, arrived_at)
+  values (p_student_id, p_date, p_period, p_status, auth.uid(), v_class_id, p_arrived_at)
+  on conflict (student_id, date, period) do update
+    set status = excluded.status, arrived_at = excluded.arrived_at
+    where attendance_records.status = 'absent';
+  get diagnostics v_rows = row_count;
+
+  update public.kiosk_devices set last_seen_at = now() where id = v_device.id;
+  return v_rows > 0;
+end;
+$$;
+
+-- Kiosk accounts never write attendance directly, whatever the school's assignments.
+create or replace function public.can_mark_attendance(p_class_id uuid, p_date date, p_period integer)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    not exists (select 1 from public.profiles where id = auth.uid() and role = 'kiosk')
+    and (
+      exists (select 1 from public.profiles where id = auth.uid() and role = 'principal')
+      or not exists (
+        select 1 from public.faculty_assignments where principal_id = public.current_principal_id()
+      )
+      or exists (
+        select 1
+        from public.faculty_assignments
+        where faculty_id = auth.uid()
+          and class_id = p_class_id
+          and weekday = extract(dow from p_date)
+          and period = p_period
+      )
+    );
+$$;
@@ -0,0 +1,84 @@
+-- Printable student ID cards carry a QR payload signed with a per-school secret,
+-- so a card only verifies at the school that issued it. Payloads look like
+-- BSA1.<student id>.<principal id>.<signature>, where the signature is the first
+-- 32 hex digits of HMAC-SHA256 over everything before it.
+create extension if not exists pgcrypto with schema extensions;
+
+-- Never readable by clients: no policies, only the security definer functions below.
+create table public.school_card_keys (
+  principal_id uuid primary key references public.profiles(id) on delete cascade,
+  secret bytea not null default extensions.gen_random_bytes(32),
+  created_at timestamptz not null default now()
+);
+
+alter table public.school_card_keys enable row level security;
+
+create or replace function public.student_card_signature(p_message text, p_secret bytea)
+returns text
+language sql
+immutable
+set search_path = public
+as $$
+  select left(encode(extensions.hmac(convert_to(p_message, 'UTF8'), p_secret, 'sha256'), 'hex'), 32);
+$$;
+
+-- Card payloads for the given students of the caller's school.
+create or replace function public.issue_student_cards(p_student_ids uuid[])
+returns table (student_id uuid, payload text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_principal_id uuid := public.current_principal_id();
+  v_secret bytea;
+begin
+  if v_principal_id is null or exists (select 1 from public.profiles where id = auth.uid() and role = 'kiosk') then
+    raise exception 'Only school staff can print ID cards';
+  end if;
+
+  insert into public.school_card_keys (principal_id) values (v_principal_id) on conflict do nothing;
+  select k.secret into v_secret from public.school_card_keys k where k.principal_id = v_principal_id;
+
+  return query
+  select s.id, m.message || '.' || public.student_card_signature(m.message, v_secret)
+  from public.students s
+  cross join lateral (select 'BSA1.' || s.id || '.' || v_principal_id as message) m
+  where s.id = any (p_student_ids) and s.principal_id = v_principal_id;
+end;
+$$;
+
+-- Returns the student a scanned card belongs to, or null when the card is malformed,
+-- forged, or issued by another school.
+create or replace function public.verify_student_card(p_payload text)
+returns uuid
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_parts text[] := string_to_array(p_payload, '.');
+  v_principal_id uuid := public.current_principal_id();
+  v_secret bytea;
+  v_student_id uuid;
+begin
+  if coalesce(array_length(v_parts, 1), 0) <> 4 or v_parts[1] <> 'BSA1' or v_principal_id is null then
+    return null;
+  end if;
+  if v_parts[3] <> v_principal_id::text then
+    return null;
+  end if;
+
+  select k.secret into v_secret from public.school_card_keys k where k.principal_id = v_principal_id;
+  if v_secret is null
+    or public.student_card_signature(array_to_string(v_parts[1:3], '.'), v_secret) <> v_parts[4] then
+    return null;
+  end if;
+
+  select s.id into v_student_id
+  from public.students s
+  where s.id::text = v_parts[2] and s.principal_id = v_principal_id;
+  return v_student_id;
+end;
+$$;
@@ -0,0 +1,56 @@
+-- Per-student attendance totals over a date range, aggregated in the database so the
+-- reports page never downloads raw attendance rows. Runs with the caller's rights, so
+-- row level security still limits it to the caller's school.
+create or replace function public.attendance_report(
+  p_start date,
+  p_end date,
+  p_class_id uuid default null,
+  p_periods integer[] default null
+)
+returns table (
+  student_id uuid,
+  full_name text,
+  roll_number text,
+  class_id uuid,
+  present bigint,
+  late bigint,
+  sleepy bigint,
+  absent bigint,
+  excused bigint,
+  medical_leave bigint,
+  on_duty bigint,
+  sessions bigint,
+  percentage numeric
+)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    s.id,
+    s.full_name,
+    s.roll_number,
+    s.class_id,
+    count(*) filter (where r.status = 'present'),
+    count(*) filter (where r.status = 'late'),
+    count(*) filter (where r.status = 'sleepy'),
+    count(*) filter (where r.status = 'absent'),
+    count(*) filter (where r.status = 'excused'),
+    count(*) filter (where r.status = 'medical_leave'),
+    count(*) filter (where r.status = 'on_duty'),
+    count(r.id),
+    -- Excused and medical leave carry no credit and are left out of the percentage
+    round(
+      100 * sum(public.attendance_status_credit(r.status))
+        / nullif(count(public.attendance_status_credit(r.status)), 0),
+      1
+    )
+  from public.students s
+  left join public.attendance_records r
+    on r.student_id = s.id
+    and r.date between p_start and p_end
+    and (p_periods is null or r.period = any (p_periods))
+  where s.principal_id = public.current_principal_id()
+    and (p_class_id is null or s.class_id = p_class_id)
+  group by s.id;
+$$;
@@ -0,0 +1,79 @@
+-- Aggregates behind the dashboard charts. Principals see the whole school; faculty see
+-- the classes they are assigned to, or the periods they marked themselves when the
+-- school has not assigned them any classes. Row level security still applies.
+create or replace function public.in_dashboard_scope(p_class_id uuid, p_verified_by uuid)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select
+    exists (select 1 from public.profiles where id = auth.uid() and role = 'principal')
+    or exists (
+      select 1 from public.faculty_assignments where faculty_id = auth.uid() and class_id = p_class_id
+    )
+    or (
+      not exists (select 1 from public.faculty_assignments where faculty_id = auth.uid())
+      and p_verified_by = auth.uid()
+    );
+$$;
+
+-- Attendance percentage of each day with attendance in the range.
+create or replace function public.daily_attendance_rates(p_start date, p_end date)
+returns table (date date, sessions bigint, percentage numeric)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    r.date,
+    count(*),
+    round(
+      100 * sum(public.attendance_status_credit(r.status))
+        / nullif(count(public.attendance_status_credit(r.status)), 0),
+      1
+    )
+  from public.attendance_records r
+  where r.date between p_start and p_end
+    and public.in_dashboard_scope(r.class_id, r.verified_by)
+  group by r.date
+  order by r.date;
+$$;
+
+-- Sessions of each status by period of the day.
+create or replace function public.period_status_counts(p_start date, p_end date)
+returns table (period integer, status public.attendance_status, sessions bigint)
+language sql
+stable
+set search_path = public
+as $$
+  select r.period, r.status, count(*)
+  from public.attendance_records r
+  where r.date between p_start and p_end
+    and public.in_dashboard_scope(r.class_id, r.verified_by)
+  group by r.period, r.status
+  order by r.period;
+$$;
+
+-- Attendance percentage of each class, lowest first.
+create or replace function public.class_attendance_rates(p_start date, p_end date)
+returns table (class_id uuid, sessions bigint, percentage numeric)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    r.class_id,
+    count(*),
+    round(
+      100 * sum(public.attendance_status_credit(r.status))
+        / nullif(count(public.attendance_status_credit(r.status)), 0),
+      1
+    ) as percentage
+  from public.attendance_records r
+  where r.date between p_start and p_end
+    and r.class_id is not null
+    and public.in_dashboard_scope(r.class_id, r.verified_by)
+  group by r.class_id
+  order by percentage nulls last;
+$$;
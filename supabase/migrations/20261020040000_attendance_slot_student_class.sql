@@ -0,0 +1,36 @@
+-- The slot policies checked the class_id the client sent, so a faculty member with
+-- any assignment could write attendance for students of other classes by sending
+-- their own class. The slot is now checked against the student's class, and a
+-- record may only be filed under that class.
+drop policy "Attendance is written only for assigned slots" on public.attendance_records;
+drop policy "Attendance is edited only for assigned slots" on public.attendance_records;
+
+create or replace function public.can_mark_student_attendance(
+  p_student_id uuid,
+  p_class_id uuid,
+  p_date date,
+  p_period integer
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.students s
+    where s.id = p_student_id
+      and (p_class_id is null or p_class_id = s.class_id)
+      and public.can_mark_attendance(s.class_id, p_date, p_period)
+  );
+$$;
+
+create policy "Attendance is written only for assigned slots"
+  on public.attendance_records as restrictive for insert
+  with check (public.can_mark_student_attendance(student_id, class_id, date, period));
+
+create policy "Attendance is edited only for assigned slots"
+  on public.attendance_records as restrictive for update
+  using (public.can_mark_student_attendance(student_id, class_id, date, period))
+  with check (public.can_mark_student_attendance(student_id, class_id, date, period));
@@ -0,0 +1,72 @@
+-- Kiosk profiles carry their school's principal_id so they can read the roster, which
+-- also let them through every staff write policy built on current_principal_id().
+-- These restrictive policies apply on top of the existing ones and leave kiosks with
+-- read access only; they write attendance solely through record_kiosk_arrival.
+create or replace function public.is_kiosk()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.profiles where id = auth.uid() and role = 'kiosk');
+$$;
+
+create policy "Kiosks cannot add students"
+  on public.students as restrictive for insert
+  with check (not public.is_kiosk());
+create policy "Kiosks cannot change students"
+  on public.students as restrictive for update
+  using (not public.is_kiosk());
+create policy "Kiosks cannot remove students"
+  on public.students as restrictive for delete
+  using (not public.is_kiosk());
+
+create policy "Kiosks cannot add face descriptors"
+  on public.student_face_descriptors as restrictive for insert
+  with check (not public.is_kiosk());
+create policy "Kiosks cannot remove face descriptors"
+  on public.student_face_descriptors as restrictive for delete
+  using (not public.is_kiosk());
+
+create policy "Kiosks cannot add student photos"
+  on public.student_photos as restrictive for insert
+  with check (not public.is_kiosk());
+create policy "Kiosks cannot change student photos"
+  on public.student_photos as restrictive for update
+  using (not public.is_kiosk());
+create policy "Kiosks cannot remove student photos"
+  on public.student_photos as restrictive for delete
+  using (not public.is_kiosk());
+
+create policy "Kiosks cannot request leave"
+  on public.leave_requests as restrictive for insert
+  with check (not public.is_kiosk());
+
+create policy "Kiosks cannot record match reviews"
+  on public.match_reviews as restrictive for insert
+  with check (not public.is_kiosk());
+
+create policy "Kiosks cannot log unknown faces"
+  on public.unknown_faces as restrictive for insert
+  with check (not public.is_kiosk());
+
+-- Inserts and updates are already refused by can_mark_attendance.
+create policy "Kiosks cannot remove attendance"
+  on public.attendance_records as restrictive for delete
+  using (not public.is_kiosk());
+
+-- Their profile is created by claim_kiosk; a kiosk must not be able to change its role.
+create policy "Kiosks cannot change profiles"
+  on public.profiles as restrictive for update
+  using (not public.is_kiosk());
+
+create policy "Kiosks cannot upload files"
+  on storage.objects as restrictive for insert
+  with check (not public.is_kiosk());
+create policy "Kiosks cannot change files"
+  on storage.objects as restrictive for update
+  using (not public.is_kiosk());
+create policy "Kiosks cannot delete files"
+  on storage.objects as restrictive for delete
+  using (not public.is_kiosk());
@@ -0,0 +1,175 @@
+-- Hardens kiosks: the unlock PIN locks after repeated wrong guesses, and arrivals are
+-- timed on the server in the kiosk's own time zone instead of trusting the date,
+-- period and arrival time the device sends.
+alter table public.kiosk_devices
+  -- IANA zone of the school, taken from the principal's browser when the kiosk is
+  -- registered. Kiosks registered before this have none and must be registered again.
+  add column timezone text,
+  add column failed_pin_attempts integer not null default 0,
+  add column pin_locked_until timestamptz;
+
+drop function public.create_kiosk(text, uuid, text);
+
+create or replace function public.create_kiosk(p_name text, p_class_id uuid, p_unlock_pin text, p_timezone text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_code text;
+begin
+  if not exists (select 1 from public.profiles where id = auth.uid() and role = 'principal') then
+    raise exception 'Only principals can register kiosks';
+  end if;
+  if p_unlock_pin !~ '^[0-9]{4,8}$' then
+    raise exception 'The unlock PIN must be 4 to 8 digits';
+  end if;
+  if p_class_id is not null
+    and not exists (select 1 from public.classes where id = p_class_id and principal_id = auth.uid()) then
+    raise exception 'Class not found';
+  end if;
+  if not exists (select 1 from pg_timezone_names where name = p_timezone) then
+    raise exception 'Unknown time zone %', p_timezone;
+  end if;
+
+  v_code := upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 8));
+  insert into public.kiosk_devices (principal_id, name, class_id, pairing_code, unlock_pin_hash, timezone)
+  values (
+    auth.uid(), trim(p_name), p_class_id, v_code,
+    extensions.crypt(p_unlock_pin, extensions.gen_salt('bf')), p_timezone
+  );
+  return v_code;
+end;
+$$;
+
+-- Five wrong PINs in a row lock the kiosk's PIN for 15 minutes. Wrong guesses return
+-- false rather than raising, so the attempt counter is kept.
+create or replace function public.verify_kiosk_pin(p_pin text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_device public.kiosk_devices;
+begin
+  select * into v_device from public.kiosk_devices where device_user_id = auth.uid() for update;
+  if not found then
+    return false;
+  end if;
+  if v_device.pin_locked_until > now() then
+    raise exception 'Too many wrong PINs. Try again after %',
+      to_char(v_device.pin_locked_until at time zone coalesce(v_device.timezone, 'UTC'), 'HH24:MI');
+  end if;
+
+  if v_device.unlock_pin_hash = extensions.crypt(p_pin, v_device.unlock_pin_hash) then
+    update public.kiosk_devices
+    set failed_pin_attempts = 0, pin_locked_until = null
+    where id = v_device.id;
+    return true;
+  end if;
+
+  update public.kiosk_devices
+  set
+    failed_pin_attempts = case when failed_pin_attempts + 1 >= 5 then 0 else failed_pin_attempts + 1 end,
+    pin_locked_until = case when failed_pin_attempts + 1 >= 5 then now() + interval '15 minutes' end
+  where id = v_device.id;
+  return false;
+end;
+$$;
+
+drop function public.record_kiosk_arrival(uuid, date, integer, public.attendance_status, timestamptz);
+
+-- Records a student walking in now, for the period running in the kiosk's time zone or
+-- one starting within the next 10 minutes (KIOSK_EARLY_MINUTES in src/lib/kiosk.ts).
+-- A student already marked for the period keeps that mark, except that an absence saved
+-- before they arrived is corrected. Returns the period and status, and whether anything
+-- was written.
+create or replace function public.record_kiosk_arrival(p_student_id uuid)
+returns table (arrival_period integer, arrival_status public.attendance_status, recorded boolean)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_device public.kiosk_devices;
+  v_class_id uuid;
+  v_arrived_at timestamptz := now();
+  v_local timestamp;
+  v_period integer;
+  v_start time;
+  v_late_after integer;
+  v_status public.attendance_status;
+  v_rows integer;
+begin
+  select * into v_device from public.kiosk_devices where device_user_id = auth.uid();
+  if not found then
+    raise exception 'This device is not a paired kiosk';
+  end if;
+  if v_device.timezone is null then
+    raise exception 'Register this kiosk again so it knows the school''s time zone';
+  end if;
+
+  select class_id into v_class_id
+  from public.students
+  where id = p_student_id and principal_id = v_device.principal_id;
+  if not found then
+    raise exception 'Student not found';
+  end if;
+  if v_device.class_id is not null and v_class_id is distinct from v_device.class_id then
+    raise exception 'Student is not in this kiosk''s class';
+  end if;
+
+  v_local := v_arrived_at at time zone v_device.timezone;
+  if not public.is_school_day(v_device.principal_id, v_local::date) then
+    raise exception 'School is closed today';
+  end if;
+
+  -- Schools without a saved timetable use the default one from src/lib/timetable.ts
+  with slots as (
+    select t.period, t.start_time, t.end_time
+    from public.timetable_periods t
+    where t.principal_id = v_device.principal_id and t.period is not null
+    union all
+    select d.period, d.start_time, d.end_time
+    from (values
+      (1, time '09:50', time '10:50'),
+      (2, time '10:50', time '11:50'),
+      (3, time '11:50', time '12:50'),
+      (4, time '12:50', time '13:30'),
+      (5, time '13:30', time '14:30'),
+      (6, time '14:30', time '15:30'),
+      (7, time '15:30', time '16:30'),
+      (8, time '16:30', time '17:30')
+    ) as d (period, start_time, end_time)
+    where not exists (select 1 from public.timetable_periods t where t.principal_id = v_device.principal_id)
+  )
+  select s.period, s.start_time into v_period, v_start
+  from slots s
+  where v_local::time >= s.start_time - interval '10 minutes' and v_local::time < s.end_time
+  order by v_local::time >= s.start_time desc, s.start_time
+  limit 1;
+  if v_period is null then
+    raise exception 'No class is starting now';
+  end if;
+
+  select s.late_after_minutes into v_late_after
+  from public.school_settings s
+  where s.principal_id = v_device.principal_id;
+  v_status := case
+    when date_trunc('minute', v_local)::time > v_start + make_interval(mins => coalesce(v_late_after, 10)) then 'late'
+    else 'present'
+  end;
+
+  insert into public.attendance_records (student_id, date, period, status, verified_by, class_id, arrived_at)
+  values (p_student_id, v_local::date, v_period, v_status, auth.uid(), v_class_id, v_arrived_at)
+  on conflict (student_id, date, period) do update
+    set status = excluded.status, arrived_at = excluded.arrived_at
+    where attendance_records.status = 'absent';
+  get diagnostics v_rows = row_count;
+
+  update public.kiosk_devices set last_seen_at = now() where id = v_device.id;
+  return query select v_period, v_status, v_rows > 0;
+end;
+$$;
@@ -0,0 +1,126 @@
+-- Attendance marked on weekly offs, holidays or outside term no longer counts towards
+-- the report and dashboard figures, and new attendance can't be saved for those days.
+-- Kiosk arrivals already refuse closed days in record_kiosk_arrival.
+create policy "Attendance is written only on school days"
+  on public.attendance_records as restrictive for insert
+  with check (
+    public.is_school_day((select s.principal_id from public.students s where s.id = attendance_records.student_id), date)
+  );
+
+create or replace function public.attendance_report(
+  p_start date,
+  p_end date,
+  p_class_id uuid default null,
+  p_periods integer[] default null
+)
+returns table (
+  student_id uuid,
+  full_name text,
+  roll_number text,
+  class_id uuid,
+  present bigint,
+  late bigint,
+  sleepy bigint,
+  absent bigint,
+  excused bigint,
+  medical_leave bigint,
+  on_duty bigint,
+  sessions bigint,
+  percentage numeric
+)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    s.id,
+    s.full_name,
+    s.roll_number,
+    s.class_id,
+    count(*) filter (where r.status = 'present'),
+    count(*) filter (where r.status = 'late'),
+    count(*) filter (where r.status = 'sleepy'),
+    count(*) filter (where r.status = 'absent'),
+    count(*) filter (where r.status = 'excused'),
+    count(*) filter (where r.status = 'medical_leave'),
+    count(*) filter (where r.status = 'on_duty'),
+    count(r.id),
+    -- Excused and medical leave carry no credit and are left out of the percentage
+    round(
+      100 * sum(public.attendance_status_credit(r.status))
+        / nullif(count(public.attendance_status_credit(r.status)), 0),
+      1
+    )
+  from public.students s
+  left join public.attendance_records r
+    on r.student_id = s.id
+    and r.date between p_start and p_end
+    and (p_periods is null or r.period = any (p_periods))
+    and public.is_school_day(s.principal_id, r.date)
+  where s.principal_id = public.current_principal_id()
+    and (p_class_id is null or s.class_id = p_class_id)
+  group by s.id;
+$$;
+
+-- Attendance percentage of each day with attendance in the range.
+create or replace function public.daily_attendance_rates(p_start date, p_end date)
+returns table (date date, sessions bigint, percentage numeric)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    r.date,
+    count(*),
+    round(
+      100 * sum(public.attendance_status_credit(r.status))
+        / nullif(count(public.attendance_status_credit(r.status)), 0),
+      1
+    )
+  from public.attendance_records r
+  where r.date between p_start and p_end
+    and public.in_dashboard_scope(r.class_id, r.verified_by)
+    and public.is_school_day(public.current_principal_id(), r.date)
+  group by r.date
+  order by r.date;
+$$;
+
+-- Sessions of each status by period of the day.
+create or replace function public.period_status_counts(p_start date, p_end date)
+returns table (period integer, status public.attendance_status, sessions bigint)
+language sql
+stable
+set search_path = public
+as $$
+  select r.period, r.status, count(*)
+  from public.attendance_records r
+  where r.date between p_start and p_end
+    and public.in_dashboard_scope(r.class_id, r.verified_by)
+    and public.is_school_day(public.current_principal_id(), r.date)
+  group by r.period, r.status
+  order by r.period;
+$$;
+
+-- Attendance percentage of each class, lowest first.
+create or replace function public.class_attendance_rates(p_start date, p_end date)
+returns table (class_id uuid, sessions bigint, percentage numeric)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    r.class_id,
+    count(*),
+    round(
+      100 * sum(public.attendance_status_credit(r.status))
+        / nullif(count(public.attendance_status_credit(r.status)), 0),
+      1
+    ) as percentage
+  from public.attendance_records r
+  where r.date between p_start and p_end
+    and r.class_id is not null
+    and public.in_dashboard_scope(r.class_id, r.verified_by)
+    and public.is_school_day(public.current_principal_id(), r.date)
+  group by r.class_id
+  order by percentage nulls last;
+$$;